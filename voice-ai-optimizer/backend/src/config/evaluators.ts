@@ -0,0 +1,18 @@
+import { functionEvaluatorRegistry } from '../services/FunctionEvaluators.js';
+
+/**
+ * Register project-specific FUNCTION evaluators at startup.
+ * Criteria reference them by name: { type: 'function', config: { functionName, params } }
+ *
+ * Example:
+ *   functionEvaluatorRegistry.register('mentionsCallback', {
+ *     description: 'Agent offers to call the user back',
+ *     evaluate: ({ conversation }) => {
+ *       const offered = conversation.some(t => t.role === 'assistant' && /call you back/i.test(t.content));
+ *       return { passed: offered, reasoning: offered ? 'Callback offered' : 'No callback offered' };
+ *     },
+ *   });
+ */
+export function registerCustomEvaluators(): void {
+  console.log(`🧩 Function evaluators available: ${functionEvaluatorRegistry.list().map(e => e.name).join(', ')}`);
+}
@@ -12,6 +12,10 @@ const envSchema = z.object({
   REDIS_URL: z.string().default('redis://localhost:6379'),
   HIGHLEVEL_API_KEY: z.string().optional(),
   HIGHLEVEL_API_BASE_URL: z.string().url().default('https://rest.gohighlevel.com/v1'),
+  // Judge score needed to pass; tune with POST /api/calibration/run
+  JUDGE_PASS_THRESHOLD: z.coerce.number().min(0).max(1).default(0.7),
+  // Smallest score gain an optimized prompt must show to be kept
+  MIN_SCORE_IMPROVEMENT: z.coerce.number().min(0).max(1).default(0.02),
 });
 
 const parsed = envSchema.safeParse(process.env);
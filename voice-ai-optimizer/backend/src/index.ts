@@ -1,7 +1,9 @@
 import express from 'express';
 import cors from 'cors';
 import { config } from './config/index.js';
+import { registerCustomEvaluators } from './config/evaluators.js';
 import { connectDatabase } from './utils/database.js';
+import { startWorker } from './utils/worker.js';
 import apiRoutes from './routes/api.js';
 
 const app = express();
@@ -31,6 +33,8 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 async function startServer() {
   try {
     await connectDatabase();
+    registerCustomEvaluators();
+    startWorker();
 
     const PORT = parseInt(config.PORT, 10);
     app.listen(PORT, () => {
@@ -40,8 +44,14 @@ async function startServer() {
       console.log(`   GET  /api/agents/:agentId`);
       console.log(`   POST /api/agents/:agentId/generate-tests`);
       console.log(`   GET  /api/agents/:agentId/test-suites`);
+      console.log(`   PUT  /api/test-suites/:suiteId/global-criteria`);
       console.log(`   POST /api/test-suites/:suiteId/execute`);
       console.log(`   POST /api/test-suites/:suiteId/optimize`);
+      console.log(`   GET  /api/jobs/:jobId`);
+      console.log(`   GET  /api/jobs/:jobId/events`);
+      console.log(`   POST /api/jobs/:jobId/cancel`);
+      console.log(`   POST /api/executions/:id/resume`);
+      console.log(`   GET  /api/function-evaluators`);
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
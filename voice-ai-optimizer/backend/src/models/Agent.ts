@@ -1,4 +1,7 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { KnowledgeBaseModel, DEFAULT_KNOWLEDGE_BASE } from './KnowledgeBase.js';
+import { ComplianceSettings } from '../types/index.js';
+import { knowledgeBaseFromLegacy } from '../utils/knowledgeBase.js';
 
 export interface AgentDocument extends Document {
   agentId: string;
@@ -8,13 +11,21 @@ export interface AgentDocument extends Document {
   businessContext: {
     industry: string;
     useCase: string;
-    services: string[];
-    workingHours: string;
+    // Legacy free text, moved into the agent's knowledge base on first load
+    services?: string[];
+    workingHours?: string;
   };
+  compliance: ComplianceSettings[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const ComplianceSettingsSchema = new Schema<ComplianceSettings>({
+  requirement: { type: String, required: true, uppercase: true, trim: true },
+  disabledRules: [{ type: String }],
+  disclosures: [{ type: String, trim: true }],
+}, { _id: false });
+
 const AgentSchema = new Schema<AgentDocument>(
   {
     agentId: { type: String, required: true, unique: true, index: true },
@@ -24,9 +35,10 @@ const AgentSchema = new Schema<AgentDocument>(
     businessContext: {
       industry: { type: String, default: 'Healthcare' },
       useCase: { type: String, default: 'Appointment Scheduling' },
-      services: [{ type: String }],
+      services: { type: [String], default: undefined },
       workingHours: { type: String },
     },
+    compliance: { type: [ComplianceSettingsSchema], default: [] },
   },
   { timestamps: true }
 );
@@ -40,6 +52,31 @@ Answer customer questions.
 
 Be helpful.`;
 
+/**
+ * Move the free-text services and hours an agent kept before knowledge bases existed into its knowledge base.
+ * The legacy fields are cleared afterwards, so a knowledge base deleted later stays deleted
+ */
+async function migrateLegacyBusinessContext(agent: AgentDocument): Promise<void> {
+  const { services, workingHours } = agent.businessContext || {};
+  if (!services?.length && !workingHours) return;
+
+  const existing = await KnowledgeBaseModel.findOne({ agentId: agent.agentId });
+  // An untouched demo seed is not the agent's own data, so the legacy facts replace it
+  const isDemoSeed = existing?.version === 1 && existing.businessName === DEFAULT_KNOWLEDGE_BASE.businessName;
+  if (!existing || isDemoSeed) {
+    await KnowledgeBaseModel.deleteOne({ agentId: agent.agentId });
+    await KnowledgeBaseModel.create({ agentId: agent.agentId, ...knowledgeBaseFromLegacy({ services, workingHours }) });
+    console.log(`📚 Migrated legacy services and hours into the knowledge base for agent: ${agent.agentId}`);
+  }
+
+  await AgentModel.updateOne(
+    { agentId: agent.agentId },
+    { $unset: { 'businessContext.services': 1, 'businessContext.workingHours': 1 } }
+  );
+  agent.businessContext.services = undefined;
+  agent.businessContext.workingHours = undefined;
+}
+
 // Create or get agent
 export async function getOrCreateAgent(agentId: string): Promise<AgentDocument> {
   let agent = await AgentModel.findOne({ agentId });
@@ -53,21 +90,17 @@ export async function getOrCreateAgent(agentId: string): Promise<AgentDocument>
       businessContext: {
         industry: 'Healthcare',
         useCase: 'Dental Appointment Scheduling',
-        services: [
-          'Routine Dental Cleanings ($99)',
-          'Teeth Whitening ($299)',
-          'Dental Fillings ($150-$300)',
-          'Root Canal Treatment ($800-$1200)',
-          'Dental Crowns ($900-$1500)',
-          'Orthodontic Consultations (Free)',
-          'Pediatric Dentistry ($75-$200)',
-          'Flu shots ($25)',
-          'COVID-19 vaccines (Free)',
-        ],
-        workingHours: 'Mon-Fri 8AM-6PM, Sat 9AM-2PM, Sun CLOSED',
       },
     });
     console.log(`✅ Created new agent: ${agentId}`);
+
+    // New agents are the demo dental clinic, so they start with its knowledge base
+    if (!(await KnowledgeBaseModel.exists({ agentId }))) {
+      await KnowledgeBaseModel.create({ agentId, ...DEFAULT_KNOWLEDGE_BASE });
+      console.log(`📚 Seeded knowledge base for agent: ${agentId}`);
+    }
+  } else {
+    await migrateLegacyBusinessContext(agent);
   }
   
   return agent;
@@ -4,8 +4,23 @@ import {
   TestResponse, 
   Evaluation,
   CriteriaResult,
+  TurnResult,
+  VoiceTurnMetrics,
+  LatencyStats,
+  FactViolation,
+  FactKind,
+  SlotResult,
+  SlotKind,
+  SlotStatus,
+  AgentAction,
+  AgentActionType,
+  ComplianceFinding,
+  ComplianceRequirementResult,
+  ComplianceReport,
+  ComplianceSeverity,
   ConversationTurn,
-  ExecutionStatus 
+  ExecutionStatus,
+  ExecutionRunOptions,
 } from '../types/index.js';
 
 const ConversationTurnSchema = new Schema({
@@ -35,12 +50,104 @@ const CriteriaResultSchema = new Schema<CriteriaResult>({
     max: 1
   },
   reasoning: { type: String, required: true },
+  confidence: { type: Number, min: 0, max: 1 },
+}, { _id: false });
+
+const TurnResultSchema = new Schema<TurnResult>({
+  turnIndex: { type: Number, required: true, min: 0 },
+  userMessage: { type: String, required: true },
+  expected: { type: String, required: true },
+  actual: { type: String, default: '' },
+  similarity: { type: Number, required: true, min: 0, max: 1 },
+  llmScore: { type: Number, min: 0, max: 1 },
+  score: { type: Number, required: true, min: 0, max: 1 },
+  passed: { type: Boolean, required: true },
+  reasoning: { type: String },
+}, { _id: false });
+
+const VoiceTurnMetricsSchema = new Schema<VoiceTurnMetrics>({
+  turnIndex: { type: Number, required: true, min: 0 },
+  wordCount: { type: Number, required: true, min: 0 },
+  spokenSeconds: { type: Number, required: true, min: 0 },
+  sentenceCount: { type: Number, required: true, min: 0 },
+  avgSentenceWords: { type: Number, required: true, min: 0 },
+  maxSentenceWords: { type: Number, required: true, min: 0 },
+  markdownCount: { type: Number, default: 0 },
+  bulletCount: { type: Number, default: 0 },
+  emojiCount: { type: Number, default: 0 },
+  urlCount: { type: Number, default: 0 },
+  unreadableNumbers: [{ type: String }],
+  issues: [{ type: String }],
+  score: { type: Number, required: true, min: 0, max: 1 },
+}, { _id: false });
+
+const TestStabilitySchema = new Schema({
+  runs: { type: Number, required: true, min: 1 },
+  passProbability: { type: Number, required: true, min: 0, max: 1 },
+  scoreMean: { type: Number, required: true, min: 0, max: 1 },
+  scoreVariance: { type: Number, required: true, min: 0 },
+  flaky: { type: Boolean, required: true },
+}, { _id: false });
+
+const FactViolationSchema = new Schema<FactViolation>({
+  turnIndex: { type: Number, required: true, min: 0 },
+  kind: { type: String, enum: Object.values(FactKind), required: true },
+  claim: { type: String, required: true },
+  expected: { type: String, required: true },
+  message: { type: String, required: true },
+}, { _id: false });
+
+const SlotResultSchema = new Schema<SlotResult>({
+  slot: { type: String, required: true },
+  kind: { type: String, enum: Object.values(SlotKind), required: true },
+  status: { type: String, enum: Object.values(SlotStatus), required: true },
+  requested: { type: Boolean, required: true },
+  supplied: { type: Boolean, required: true },
+  confirmed: { type: Boolean, required: true },
+  value: { type: String },
+}, { _id: false });
+
+const AgentActionSchema = new Schema<AgentAction>({
+  turnIndex: { type: Number, required: true, min: 0 },
+  type: { type: String, enum: Object.values(AgentActionType), required: true },
+  args: { type: Schema.Types.Mixed, default: {} },
+}, { _id: false });
+
+const ComplianceFindingSchema = new Schema<ComplianceFinding>({
+  requirement: { type: String, required: true },
+  ruleId: { type: String, required: true },
+  severity: { type: String, enum: Object.values(ComplianceSeverity), required: true },
+  turnIndex: { type: Number, min: 0 },
+  message: { type: String, required: true },
+}, { _id: false });
+
+const ComplianceRequirementResultSchema = new Schema<ComplianceRequirementResult>({
+  requirement: { type: String, required: true },
+  score: { type: Number, required: true, min: 0, max: 1 },
+  rulesChecked: { type: Number, required: true, min: 0 },
+  findings: [ComplianceFindingSchema],
+}, { _id: false });
+
+const ComplianceReportSchema = new Schema<ComplianceReport>({
+  score: { type: Number, required: true, min: 0, max: 1 },
+  requirements: [ComplianceRequirementResultSchema],
+}, { _id: false });
+
+const LatencyStatsSchema = new Schema<LatencyStats>({
+  samples: { type: Number, required: true, min: 0 },
+  mean: { type: Number, required: true, min: 0 },
+  p50: { type: Number, required: true, min: 0 },
+  p95: { type: Number, required: true, min: 0 },
+  max: { type: Number, required: true, min: 0 },
 }, { _id: false });
 
 const EvaluationSchema = new Schema<Evaluation>({
   testCaseId: { type: String, required: true },
+  testCaseName: { type: String },
   passed: { type: Boolean, required: true },
   criteriaResults: [CriteriaResultSchema],
+  globalCriteriaResults: [CriteriaResultSchema],
+  turnResults: [TurnResultSchema],
   overallScore: { 
     type: Number, 
     required: true,
@@ -54,6 +161,23 @@ const EvaluationSchema = new Schema<Evaluation>({
     min: 0,
     max: 1
   },
+  needsReview: { type: Boolean, default: false },
+  overridden: { type: Boolean, default: false },
+  stability: { type: TestStabilitySchema },
+  voiceMetrics: [VoiceTurnMetricsSchema],
+  factViolations: [FactViolationSchema],
+  slots: [SlotResultSchema],
+  actions: [AgentActionSchema],
+  compliance: { type: ComplianceReportSchema },
+  turnLatencies: [{ type: Number, min: 0 }],
+  latency: { type: LatencyStatsSchema },
+}, { _id: false });
+
+const ExecutionRunOptionsSchema = new Schema<ExecutionRunOptions>({
+  llmTurnCheck: { type: Boolean },
+  judgeSamples: { type: Number, min: 1 },
+  repeat: { type: Number, min: 1 },
+  flakyThreshold: { type: Number, min: 0, max: 0.5 },
 }, { _id: false });
 
 export interface ExecutionResultDocument extends Omit<ExecutionResult, 'id'>, Document {}
@@ -63,6 +187,12 @@ const ExecutionResultSchema = new Schema<ExecutionResultDocument>({
   agentId: { type: String, required: true, index: true },
   responses: [TestResponseSchema],
   evaluations: [EvaluationSchema],
+  promptHash: { type: String, required: true, index: true },
+  options: { type: ExecutionRunOptionsSchema },
+  jobId: { type: String },
+  jobStep: { type: String },
+  passRate: { type: Number, min: 0, max: 1 },
+  overallScore: { type: Number, min: 0, max: 1 },
   duration: { type: Number, required: true },
   status: { 
     type: String, 
@@ -89,5 +219,7 @@ const ExecutionResultSchema = new Schema<ExecutionResultDocument>({
 // Compound indexes
 ExecutionResultSchema.index({ executionId: 1, testCaseId: 1 });
 ExecutionResultSchema.index({ suiteId: 1, createdAt: -1 });
+ExecutionResultSchema.index({ agentId: 1, createdAt: -1 });
+ExecutionResultSchema.index({ jobId: 1, jobStep: 1 });
 
 export const ExecutionResultModel: Model<ExecutionResultDocument> = mongoose.model<ExecutionResultDocument>('ExecutionResult', ExecutionResultSchema);
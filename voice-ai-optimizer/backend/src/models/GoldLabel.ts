@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { GoldLabel } from '../types/index.js';
+
+const ConversationMessageSchema = new Schema({
+  role: { type: String, enum: ['user', 'assistant'], required: true },
+  content: { type: String, required: true },
+}, { _id: false });
+
+const MetricScoresSchema = new Schema({
+  relevance: { type: Number, min: 0, max: 1 },
+  accuracy: { type: Number, min: 0, max: 1 },
+  completeness: { type: Number, min: 0, max: 1 },
+  helpfulness: { type: Number, min: 0, max: 1 },
+}, { _id: false });
+
+// Main GoldLabel schema
+export interface GoldLabelDocument extends Omit<GoldLabel, 'id'>, Document {}
+
+const GoldLabelSchema = new Schema<GoldLabelDocument>({
+  agentId: { type: String, index: true },
+  name: { type: String, required: true },
+  conversation: {
+    type: [ConversationMessageSchema],
+    required: true,
+    validate: {
+      validator: function(v: GoldLabel['conversation']) {
+        // The judge needs at least one agent reply to grade
+        return v.some(m => m.role === 'assistant');
+      },
+      message: 'Conversation must contain at least one assistant message'
+    }
+  },
+  criterion: {
+    type: new Schema({
+      name: { type: String, required: true },
+      description: { type: String, required: true },
+      prompt: { type: String },
+    }, { _id: false }),
+  },
+  humanPassed: { type: Boolean, required: true },
+  humanScore: { type: Number, min: 0, max: 1 },
+  humanMetrics: { type: MetricScoresSchema },
+  labeledBy: { type: String },
+  notes: { type: String },
+  tags: { type: [String], default: [], index: true },
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc: Document, ret: Record<string, unknown>) => {
+      ret.id = (ret._id as mongoose.Types.ObjectId).toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+export const GoldLabelModel: Model<GoldLabelDocument> = mongoose.model<GoldLabelDocument>('GoldLabel', GoldLabelSchema);
@@ -0,0 +1,155 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import {
+  KnowledgeBase,
+  ServiceOffering,
+  ScheduleEntry,
+  Holiday,
+  Policy,
+  FAQ,
+} from '../types/index.js';
+import { WEEKDAYS } from '../utils/knowledgeBase.js';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Sub-schemas
+const ServiceOfferingSchema = new Schema<ServiceOffering>({
+  name: { type: String, required: true },
+  description: { type: String },
+  aliases: [{ type: String }],
+  priceMin: { type: Number, min: 0 },
+  priceMax: {
+    type: Number,
+    min: 0,
+    validate: {
+      validator: function(this: ServiceOffering, v: number) {
+        return this.priceMin === undefined || v >= this.priceMin;
+      },
+      message: 'priceMax must be >= priceMin'
+    }
+  },
+  currency: { type: String, default: 'USD' },
+  durationMinutes: { type: Number, min: 0 },
+}, { _id: false });
+
+const ScheduleEntrySchema = new Schema<ScheduleEntry>({
+  day: { type: String, enum: WEEKDAYS, required: true },
+  closed: { type: Boolean, default: false },
+  open: { type: String, match: TIME_PATTERN },
+  close: { type: String, match: TIME_PATTERN },
+}, { _id: false });
+
+const HolidaySchema = new Schema<Holiday>({
+  date: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+  name: { type: String, required: true },
+  recurring: { type: Boolean, default: true },
+}, { _id: false });
+
+const PolicySchema = new Schema<Policy>({
+  title: { type: String, required: true },
+  description: { type: String, required: true },
+}, { _id: false });
+
+const FAQSchema = new Schema<FAQ>({
+  question: { type: String, required: true },
+  answer: { type: String, required: true },
+}, { _id: false });
+
+// Main KnowledgeBase schema
+export interface KnowledgeBaseDocument extends KnowledgeBase, Document {}
+
+const KnowledgeBaseSchema = new Schema<KnowledgeBaseDocument>({
+  agentId: { type: String, required: true, unique: true, index: true },
+  businessName: { type: String },
+  timezone: { type: String },
+  services: {
+    type: [ServiceOfferingSchema],
+    default: [],
+    validate: {
+      validator: function(v: ServiceOffering[]) {
+        const names = v.map(s => s.name.toLowerCase());
+        return names.length === new Set(names).size;
+      },
+      message: 'Service names must be unique'
+    }
+  },
+  weeklySchedule: {
+    type: [ScheduleEntrySchema],
+    default: [],
+    validate: {
+      validator: function(v: ScheduleEntry[]) {
+        const days = v.map(e => e.day);
+        if (days.length !== new Set(days).size) return false;
+        // Open days need both times
+        return v.every(e => e.closed || (e.open && e.close && e.open < e.close));
+      },
+      message: 'Each day may appear once and open days need open < close times'
+    }
+  },
+  holidays: [HolidaySchema],
+  policies: [PolicySchema],
+  faqs: [FAQSchema],
+  version: { type: Number, default: 1 },
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc: Document, ret: Record<string, unknown>) => {
+      ret.id = (ret._id as mongoose.Types.ObjectId).toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Auto-increment version on update
+KnowledgeBaseSchema.pre<KnowledgeBaseDocument>('save', function(next) {
+  if (!this.isNew && this.isModified()) {
+    this.version += 1;
+  }
+  next();
+});
+
+export const KnowledgeBaseModel: Model<KnowledgeBaseDocument> = mongoose.model<KnowledgeBaseDocument>('KnowledgeBase', KnowledgeBaseSchema);
+
+// Knowledge base for the demo dental clinic agent
+export const DEFAULT_KNOWLEDGE_BASE: Omit<KnowledgeBase, 'agentId' | 'version'> = {
+  businessName: 'Bright Smile Dental Clinic',
+  services: [
+    { name: 'Routine Dental Cleaning', aliases: ['cleaning', 'checkup'], priceMin: 99, priceMax: 99 },
+    { name: 'Teeth Whitening', aliases: ['whitening'], priceMin: 299, priceMax: 299 },
+    { name: 'Dental Filling', aliases: ['filling', 'fillings'], priceMin: 150, priceMax: 300 },
+    { name: 'Root Canal Treatment', aliases: ['root canal'], priceMin: 800, priceMax: 1200 },
+    { name: 'Dental Crown', aliases: ['crown', 'crowns'], priceMin: 900, priceMax: 1500 },
+    { name: 'Orthodontic Consultation', aliases: ['orthodontic', 'braces consultation'], priceMin: 0, priceMax: 0 },
+    { name: 'Emergency Dental Care', aliases: ['emergency'] },
+    { name: 'Pediatric Dentistry', aliases: ['pediatric', 'kids'], priceMin: 75, priceMax: 200 },
+    { name: 'Flu Shot', aliases: ['flu', 'flu vaccine'], priceMin: 25, priceMax: 25 },
+    { name: 'COVID-19 Vaccine', aliases: ['covid', 'covid vaccine'], priceMin: 0, priceMax: 0 },
+  ],
+  weeklySchedule: [
+    { day: 'monday', closed: false, open: '08:00', close: '18:00' },
+    { day: 'tuesday', closed: false, open: '08:00', close: '18:00' },
+    { day: 'wednesday', closed: false, open: '08:00', close: '18:00' },
+    { day: 'thursday', closed: false, open: '08:00', close: '18:00' },
+    { day: 'friday', closed: false, open: '08:00', close: '18:00' },
+    { day: 'saturday', closed: false, open: '09:00', close: '14:00' },
+    { day: 'sunday', closed: true },
+  ],
+  holidays: [
+    { date: '2025-01-01', name: "New Year's Day", recurring: true },
+    { date: '2025-07-04', name: 'Independence Day', recurring: true },
+    { date: '2025-12-25', name: 'Christmas Day', recurring: true },
+  ],
+  policies: [
+    { title: 'Appointment confirmations', description: 'An email address is required to confirm every appointment.' },
+    { title: 'Date validation', description: 'Only valid calendar dates on working days can be booked.' },
+  ],
+  faqs: [],
+};
+
+// Get an agent's knowledge base as a plain object
+export async function getKnowledgeBase(agentId: string): Promise<KnowledgeBase | null> {
+  const knowledgeBase = await KnowledgeBaseModel.findOne({ agentId });
+  return knowledgeBase ? (knowledgeBase.toJSON() as KnowledgeBase) : null;
+}
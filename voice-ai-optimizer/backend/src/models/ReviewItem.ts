@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ReviewItem, ReviewStatus, ReviewReason } from '../types/index.js';
+
+const ConversationMessageSchema = new Schema({
+  role: { type: String, enum: ['user', 'assistant'], required: true },
+  content: { type: String, required: true },
+}, { _id: false });
+
+const CriteriaResultSchema = new Schema({
+  criterionId: { type: String, required: true },
+  passed: { type: Boolean, required: true },
+  score: { type: Number, required: true, min: 0, max: 1 },
+  reasoning: { type: String, required: true },
+  confidence: { type: Number, min: 0, max: 1 },
+}, { _id: false });
+
+const ReviewOverrideSchema = new Schema({
+  passed: { type: Boolean, required: true },
+  overallScore: { type: Number, required: true, min: 0, max: 1 },
+  note: { type: String, required: true },
+  reviewer: { type: String, required: true },
+  reviewedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+// Main ReviewItem schema
+export interface ReviewItemDocument extends Omit<ReviewItem, 'id'>, Document {}
+
+const ReviewItemSchema = new Schema<ReviewItemDocument>({
+  agentId: { type: String, required: true, index: true },
+  suiteId: { type: String, required: true },
+  testCaseId: { type: String, required: true },
+  testCaseName: { type: String, required: true },
+  conversationHash: { type: String, required: true },
+  conversation: [ConversationMessageSchema],
+  reasons: [{ type: String, enum: Object.values(ReviewReason) }],
+  status: {
+    type: String,
+    enum: Object.values(ReviewStatus),
+    default: ReviewStatus.PENDING,
+    index: true
+  },
+  judgeVerdict: {
+    type: new Schema({
+      passed: { type: Boolean, required: true },
+      overallScore: { type: Number, required: true, min: 0, max: 1 },
+      confidence: { type: Number, required: true, min: 0, max: 1 },
+      reasoning: { type: String, required: true },
+      criteriaResults: [CriteriaResultSchema],
+    }, { _id: false }),
+    required: true
+  },
+  override: { type: ReviewOverrideSchema },
+  goldLabelId: { type: String },
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc: Document, ret: Record<string, unknown>) => {
+      ret.id = (ret._id as mongoose.Types.ObjectId).toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// One review per test case and conversation
+ReviewItemSchema.index({ testCaseId: 1, conversationHash: 1 }, { unique: true });
+ReviewItemSchema.index({ agentId: 1, status: 1, createdAt: -1 });
+
+export const ReviewItemModel: Model<ReviewItemDocument> = mongoose.model<ReviewItemDocument>('ReviewItem', ReviewItemSchema);
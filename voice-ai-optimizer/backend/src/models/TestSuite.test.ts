@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import mongoose from 'mongoose';
+import { TestSuiteModel } from './TestSuite.js';
+import { CriteriaType, EvaluatorType, SuccessCriteria, TestCategory } from '../types/index.js';
+
+const criterion = (functionName: string, params?: Record<string, unknown>): SuccessCriteria => ({
+  id: functionName,
+  name: functionName,
+  description: 'Checked by a function evaluator',
+  type: CriteriaType.CUSTOM_LLM,
+  evaluator: { type: EvaluatorType.FUNCTION, config: { functionName, params } },
+  weight: 1,
+  required: false,
+});
+
+const suite = (successCriteria: SuccessCriteria[], globalCriteria: SuccessCriteria[] = []) => new TestSuiteModel({
+  agentId: 'test-agent',
+  name: 'Suite',
+  description: 'Suite',
+  testCases: [{
+    id: 'case-1',
+    suiteId: 'suite-1',
+    name: 'Case',
+    description: 'Case',
+    category: TestCategory.HAPPY_PATH,
+    conversationScript: [{ role: 'user', content: 'Hi' }],
+    successCriteria,
+  }],
+  globalCriteria,
+});
+
+describe('TestSuiteModel', () => {
+  it('accepts registered function evaluators with usable params', async () => {
+    await expect(suite([criterion('rejectsInvalidDate')]).validate()).resolves.toBeUndefined();
+  });
+
+  it('rejects unknown function evaluators in test cases and global criteria', async () => {
+    const error = await suite([criterion('noSuchEvaluator')], [criterion('mentionsPriceFor')]).validate().catch(e => e);
+    expect(error).toBeInstanceOf(mongoose.Error.ValidationError);
+    expect(error.errors.testCases.message).toContain('unknown function evaluator "noSuchEvaluator"');
+    expect(error.errors.globalCriteria.message).toContain('params.service');
+  });
+});
@@ -10,6 +10,7 @@ import {
   TestSuiteStatus,
   Priority
 } from '../types/index.js';
+import { functionEvaluatorRegistry } from '../services/FunctionEvaluators.js';
 
 // Sub-schemas
 const ConversationTurnSchema = new Schema<ConversationTurn>({
@@ -126,6 +127,7 @@ const TestSuiteSchema = new Schema<TestSuiteDocument>({
     }
   },
   globalCriteria: [SuccessCriteriaSchema],
+  dataToCollect: [{ type: String, trim: true }],
   version: { type: Number, default: 1 },
   status: { 
     type: String, 
@@ -146,6 +148,19 @@ const TestSuiteSchema = new Schema<TestSuiteDocument>({
   }
 });
 
+// Every FUNCTION criterion must reference a registered evaluator, however the suite is saved
+TestSuiteSchema.pre<TestSuiteDocument>('validate', function(next) {
+  const caseErrors = functionEvaluatorRegistry.validateCriteria(this.testCases.flatMap(tc => tc.successCriteria));
+  if (caseErrors.length > 0) {
+    this.invalidate('testCases', caseErrors.join('; '));
+  }
+  const globalErrors = functionEvaluatorRegistry.validateCriteria(this.globalCriteria || []);
+  if (globalErrors.length > 0) {
+    this.invalidate('globalCriteria', globalErrors.join('; '));
+  }
+  next();
+});
+
 // Auto-increment version on update
 TestSuiteSchema.pre<TestSuiteDocument>('save', function(next) {
   if (!this.isNew && this.isModified()) {
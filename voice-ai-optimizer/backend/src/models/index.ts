@@ -7,3 +7,11 @@ export {
 } from './OptimizationRecord.js';
 export { OptimizedPromptModel, OptimizedPromptDocument } from './OptimizedPrompt.js';
 export { AgentModel, AgentDocument, getOrCreateAgent, DEFAULT_BAD_PROMPT } from './Agent.js';
+export {
+  KnowledgeBaseModel,
+  KnowledgeBaseDocument,
+  DEFAULT_KNOWLEDGE_BASE,
+  getKnowledgeBase
+} from './KnowledgeBase.js';
+export { GoldLabelModel, GoldLabelDocument } from './GoldLabel.js';
+export { ReviewItemModel, ReviewItemDocument } from './ReviewItem.js';
@@ -1,10 +1,251 @@
 import { Router, Request, Response } from 'express';
-import { optimizerService } from '../services/OptimizerService.js';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { optimizerService, MAX_REPEATS } from '../services/OptimizerService.js';
 import { highLevelClient } from '../services/HighLevelClient.js';
-import { TestSuiteModel, OptimizedPromptModel } from '../models/index.js';
+import {
+  TestSuiteModel,
+  OptimizedPromptModel,
+  KnowledgeBaseModel,
+  GoldLabelModel,
+  ReviewItemModel,
+  ExecutionResultModel,
+  getOrCreateAgent,
+} from '../models/index.js';
+import { functionEvaluatorRegistry } from '../services/FunctionEvaluators.js';
+import { MAX_JUDGE_SAMPLES } from '../services/CriteriaEvaluator.js';
+import { calibrationService } from '../services/CalibrationService.js';
+import { reviewService } from '../services/ReviewService.js';
+import { complianceChecker } from '../services/ComplianceChecker.js';
+import { addJob, getJobStatus, requestCancel } from '../utils/queue.js';
+import { followJobEvents, isTerminalEvent } from '../utils/jobEvents.js';
+import {
+  TestCategory,
+  CriteriaType,
+  EvaluatorType,
+  ReviewStatus,
+  ReviewReason,
+  Sentiment,
+  ToneTrait,
+  AgentActionType,
+  ExecutionStatus,
+  ExecuteTestsResponse,
+  OptimizeResponse,
+  JobEventType,
+} from '../types/index.js';
 
 const router = Router();
 
+const SSE_HEARTBEAT_MS = 15000; // Keeps proxies from closing an idle event stream
+const FINISHED_JOB_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// Request body schemas
+const generateTestsSchema = z.object({
+  options: z.object({
+    categories: z.array(z.nativeEnum(TestCategory)).min(1).optional(),
+    minCases: z.number().int().min(1).max(50).optional(),
+    focus: z.string().trim().min(1).max(500).optional(),
+  }).optional(),
+});
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm (24h)');
+
+const serviceSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim().optional(),
+  aliases: z.array(z.string().trim().min(1)).optional(),
+  priceMin: z.number().min(0).optional(),
+  priceMax: z.number().min(0).optional(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  durationMinutes: z.number().int().min(0).optional(),
+}).refine(s => s.priceMin === undefined || s.priceMax === undefined || s.priceMax >= s.priceMin, {
+  message: 'priceMax must be >= priceMin',
+});
+
+const knowledgeBaseSchema = z.object({
+  businessName: z.string().trim().min(1).optional(),
+  timezone: z.string().trim().min(1).optional(),
+  services: z.array(serviceSchema).default([]),
+  weeklySchedule: z.array(z.object({
+    day: z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']),
+    closed: z.boolean().default(false),
+    open: timeSchema.optional(),
+    close: timeSchema.optional(),
+  })).default([]),
+  holidays: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+    name: z.string().trim().min(1),
+    recurring: z.boolean().default(true),
+  })).default([]),
+  policies: z.array(z.object({
+    title: z.string().trim().min(1),
+    description: z.string().trim().min(1),
+  })).default([]),
+  faqs: z.array(z.object({
+    question: z.string().trim().min(1),
+    answer: z.string().trim().min(1),
+  })).default([]),
+});
+
+const complianceSchema = z.object({
+  requirements: z.array(z.object({
+    requirement: z.string().trim().min(1).toUpperCase(),
+    disabledRules: z.array(z.string().trim().min(1)).default([]),
+    disclosures: z.array(z.string().trim().min(1)).default([]),
+  })
+    .refine(s => complianceChecker.has(s.requirement), {
+      message: 'No compliance rule set for this requirement',
+      path: ['requirement'],
+    })
+    .refine(s => s.disabledRules.every(id => complianceChecker.hasRule(s.requirement, id)), {
+      message: 'Unknown rule id for this requirement',
+      path: ['disabledRules'],
+    })),
+});
+
+const actionExpectationSchema = z.object({
+  type: z.nativeEnum(AgentActionType),
+  args: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+
+const evaluatorSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal(EvaluatorType.REGEX),
+    config: z.object({ pattern: z.string().min(1), flags: z.string().optional() }),
+  }),
+  z.object({
+    type: z.literal(EvaluatorType.KEYWORD),
+    config: z.object({ keywords: z.array(z.string().min(1)).min(1), matchAll: z.boolean().default(false) }),
+  }),
+  z.object({
+    type: z.literal(EvaluatorType.LLM),
+    // Left unset, the evaluator uses the configured JUDGE_PASS_THRESHOLD
+    config: z.object({ prompt: z.string().min(1), threshold: z.number().min(0).max(1).optional() }),
+  }),
+  z.object({
+    type: z.literal(EvaluatorType.FUNCTION),
+    config: z.object({ functionName: z.string().min(1), params: z.record(z.unknown()).optional() }),
+  }),
+  z.object({
+    type: z.literal(EvaluatorType.SENTIMENT),
+    config: z.object({ allowed: z.array(z.nativeEnum(Sentiment)).min(1), llmFallback: z.boolean().default(true) }),
+  }),
+  z.object({
+    type: z.literal(EvaluatorType.TONE),
+    config: z.object({
+      required: z.array(z.nativeEnum(ToneTrait)).default([]),
+      forbidden: z.array(z.nativeEnum(ToneTrait)).default([]),
+      llmFallback: z.boolean().default(true),
+    }).refine(c => c.required.length + c.forbidden.length > 0, { message: 'List at least one required or forbidden trait' }),
+  }),
+  z.object({
+    type: z.literal(EvaluatorType.ACTION),
+    config: z.object({
+      expected: z.array(actionExpectationSchema).default([]),
+      forbidden: z.array(actionExpectationSchema).default([]),
+    }).refine(c => c.expected.length + c.forbidden.length > 0, { message: 'List at least one expected or forbidden action' }),
+  }),
+]);
+
+const criterionSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  type: z.nativeEnum(CriteriaType),
+  evaluator: evaluatorSchema,
+  weight: z.number().min(0).max(1),
+  required: z.boolean().default(false),
+}).refine(c => !c.required || c.weight >= 0.5, {
+  message: 'Required criteria must have weight >= 0.5',
+}).superRefine((criterion, ctx) => {
+  // The suite model rejects these too; checking here returns a 400 before anything is saved
+  for (const message of functionEvaluatorRegistry.validateCriteria([{ ...criterion, id: criterion.id ?? '' }])) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['evaluator', 'config'] });
+  }
+});
+
+const executeTestsSchema = z.object({
+  llmTurnCheck: z.boolean().optional(),
+  judgeSamples: z.number().int().min(1).max(MAX_JUDGE_SAMPLES).optional(),
+  repeat: z.number().int().min(1).max(MAX_REPEATS).optional(),
+  flakyThreshold: z.number().min(0).max(0.5).optional(),
+});
+
+const optimizeSchema = executeTestsSchema.extend({
+  maxIterations: z.number().int().min(1).max(10).default(2),
+  targetScore: z.number().min(0).max(1).default(1),
+});
+
+const globalCriteriaSchema = z.object({
+  globalCriteria: z.array(criterionSchema),
+});
+
+const scoreSchema = z.number().min(0).max(1);
+
+const goldLabelSchema = z.object({
+  agentId: z.string().trim().min(1).optional(),
+  name: z.string().trim().min(1),
+  conversation: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().min(1),
+  })).min(1).refine(c => c.some(m => m.role === 'assistant'), {
+    message: 'Conversation must contain at least one assistant message',
+  }),
+  criterion: z.object({
+    name: z.string().trim().min(1),
+    description: z.string().trim().min(1),
+    prompt: z.string().trim().min(1).optional(),
+  }).optional(),
+  humanPassed: z.boolean(),
+  humanScore: scoreSchema.optional(),
+  humanMetrics: z.object({
+    relevance: scoreSchema.optional(),
+    accuracy: scoreSchema.optional(),
+    completeness: scoreSchema.optional(),
+    helpfulness: scoreSchema.optional(),
+  }).optional(),
+  labeledBy: z.string().trim().min(1).optional(),
+  notes: z.string().optional(),
+  tags: z.array(z.string().trim().min(1)).default([]),
+});
+
+const calibrationRunSchema = z.object({
+  agentId: z.string().trim().min(1).optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+  threshold: scoreSchema.optional(),
+});
+
+const reviewQuerySchema = z.object({
+  agentId: z.string().trim().min(1).optional(),
+  suiteId: z.string().trim().min(1).optional(),
+  status: z.nativeEnum(ReviewStatus).default(ReviewStatus.PENDING),
+  reason: z.nativeEnum(ReviewReason).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const executionQuerySchema = z.object({
+  suiteId: z.string().trim().min(1).optional(),
+  status: z.nativeEnum(ExecutionStatus).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const reviewOverrideSchema = z.object({
+  passed: z.boolean(),
+  overallScore: scoreSchema.optional(),
+  note: z.string().trim().min(1),
+  reviewer: z.string().trim().min(1),
+});
+
+function sendValidationError(res: Response, error: z.ZodError | mongoose.Error.ValidationError) {
+  const details = error instanceof z.ZodError
+    ? error.flatten().fieldErrors
+    : Object.fromEntries(Object.entries(error.errors).map(([path, e]) => [path, [e.message]]));
+  return res.status(400).json({ success: false, error: 'Invalid request body', details });
+}
+
 // Get agent info
 router.get('/agents/:agentId', async (req: Request, res: Response) => {
   try {
@@ -51,8 +292,163 @@ router.delete('/agents/:agentId/optimized-prompt', async (req: Request, res: Res
   }
 });
 
+// Get agent knowledge base
+router.get('/agents/:agentId/knowledge-base', async (req: Request, res: Response) => {
+  try {
+    const knowledgeBase = await KnowledgeBaseModel.findOne({ agentId: req.params.agentId });
+    if (!knowledgeBase) {
+      return res.status(404).json({ success: false, error: 'Knowledge base not found' });
+    }
+    res.json({ success: true, knowledgeBase });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Create or replace agent knowledge base
+router.put('/agents/:agentId/knowledge-base', async (req: Request, res: Response) => {
+  const parsed = knowledgeBaseSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const knowledgeBase = await KnowledgeBaseModel.findOne({ agentId: req.params.agentId })
+      ?? new KnowledgeBaseModel({ agentId: req.params.agentId });
+    knowledgeBase.set({ businessName: undefined, timezone: undefined, ...parsed.data });
+    await knowledgeBase.save();
+    res.json({ success: true, knowledgeBase });
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Update sections of agent knowledge base
+router.patch('/agents/:agentId/knowledge-base', async (req: Request, res: Response) => {
+  const parsed = knowledgeBaseSchema.partial().safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const knowledgeBase = await KnowledgeBaseModel.findOne({ agentId: req.params.agentId });
+    if (!knowledgeBase) {
+      return res.status(404).json({ success: false, error: 'Knowledge base not found' });
+    }
+    knowledgeBase.set(parsed.data);
+    await knowledgeBase.save();
+    res.json({ success: true, knowledgeBase });
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Delete agent knowledge base
+router.delete('/agents/:agentId/knowledge-base', async (req: Request, res: Response) => {
+  try {
+    const result = await KnowledgeBaseModel.deleteOne({ agentId: req.params.agentId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, error: 'Knowledge base not found' });
+    }
+    res.json({ success: true, message: 'Knowledge base deleted' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Create or update a single service (e.g. a price change)
+router.put('/agents/:agentId/knowledge-base/services/:serviceName', async (req: Request, res: Response) => {
+  const parsed = serviceSchema.safeParse({ ...req.body, name: req.body?.name ?? req.params.serviceName });
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const knowledgeBase = await KnowledgeBaseModel.findOne({ agentId: req.params.agentId });
+    if (!knowledgeBase) {
+      return res.status(404).json({ success: false, error: 'Knowledge base not found' });
+    }
+    const target = req.params.serviceName.toLowerCase();
+    const services = knowledgeBase.services.filter(s => s.name.toLowerCase() !== target);
+    knowledgeBase.services = [...services, parsed.data];
+    await knowledgeBase.save();
+    res.json({ success: true, knowledgeBase });
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Remove a single service
+router.delete('/agents/:agentId/knowledge-base/services/:serviceName', async (req: Request, res: Response) => {
+  try {
+    const knowledgeBase = await KnowledgeBaseModel.findOne({ agentId: req.params.agentId });
+    if (!knowledgeBase) {
+      return res.status(404).json({ success: false, error: 'Knowledge base not found' });
+    }
+    const target = req.params.serviceName.toLowerCase();
+    const remaining = knowledgeBase.services.filter(s => s.name.toLowerCase() !== target);
+    if (remaining.length === knowledgeBase.services.length) {
+      return res.status(404).json({ success: false, error: 'Service not found' });
+    }
+    knowledgeBase.services = remaining;
+    await knowledgeBase.save();
+    res.json({ success: true, knowledgeBase });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Get the agent's compliance requirements, with defaults for unconfigured ones
+router.get('/agents/:agentId/compliance', async (req: Request, res: Response) => {
+  try {
+    const businessContext = await optimizerService.getBusinessContext(req.params.agentId);
+    res.json({ success: true, compliance: complianceChecker.settingsFor(businessContext) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Configure the agent's compliance requirements
+router.put('/agents/:agentId/compliance', async (req: Request, res: Response) => {
+  const parsed = complianceSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const agent = await getOrCreateAgent(req.params.agentId);
+    agent.set({ compliance: parsed.data.requirements });
+    await agent.save();
+    res.json({ success: true, compliance: agent.compliance });
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List compliance requirements and the rules checked for each
+router.get('/compliance-rules', (req: Request, res: Response) => {
+  res.json({ success: true, ruleSets: complianceChecker.list() });
+});
+
 // Check optimized version (run tests with current prompt)
 router.post('/agents/:agentId/check-optimized', async (req: Request, res: Response) => {
+  const parsed = executeTestsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
   try {
     // Get the latest test suite for this agent
     const suite = await TestSuiteModel.findOne({ agentId: req.params.agentId }).sort({ createdAt: -1 });
@@ -64,7 +460,15 @@ router.post('/agents/:agentId/check-optimized', async (req: Request, res: Respon
     const agent = await highLevelClient.getAgent(req.params.agentId);
     
     // Run tests
-    const results = await optimizerService.executeTests(req.params.agentId, suite.testCases);
+    const results = await optimizerService.executeTests(req.params.agentId, suite.testCases, {
+      suiteId: suite.id,
+      globalCriteria: suite.globalCriteria,
+      dataToCollect: suite.dataToCollect,
+      llmTurnCheck: parsed.data.llmTurnCheck,
+      judgeSamples: parsed.data.judgeSamples,
+      repeat: parsed.data.repeat,
+      flakyThreshold: parsed.data.flakyThreshold,
+    });
     
     res.json({ 
       success: true, 
@@ -77,10 +481,91 @@ router.post('/agents/:agentId/check-optimized', async (req: Request, res: Respon
   }
 });
 
+// Execution history for an agent, newest first; transcripts are left out of the list
+router.get('/agents/:agentId/executions', async (req: Request, res: Response) => {
+  const parsed = executionQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const { suiteId, status, page, limit } = parsed.data;
+    const filter: Record<string, unknown> = { agentId: req.params.agentId };
+    if (suiteId) filter.suiteId = suiteId;
+    if (status) filter.status = status;
+
+    const [executions, total] = await Promise.all([
+      ExecutionResultModel.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select('-responses -evaluations'),
+      ExecutionResultModel.countDocuments(filter),
+    ]);
+    res.json({
+      success: true,
+      executions,
+      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// One execution with every response and evaluation
+router.get('/executions/:id', async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Execution not found' });
+    }
+    const execution = await ExecutionResultModel.findById(req.params.id);
+    if (!execution) {
+      return res.status(404).json({ success: false, error: 'Execution not found' });
+    }
+    res.json({ success: true, execution });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Resume a partial, rate-limited, failed or cancelled execution from its last finished test case
+router.post('/executions/:id/resume', async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Execution not found' });
+    }
+    const execution = await ExecutionResultModel.findById(req.params.id);
+    if (!execution) {
+      return res.status(404).json({ success: false, error: 'Execution not found' });
+    }
+    const blocker = await optimizerService.resumeBlocker(execution);
+    if (blocker) {
+      return res.status(409).json({ success: false, error: blocker });
+    }
+
+    const job = await addJob({
+      type: 'test-execution',
+      suiteId: execution.suiteId,
+      agentId: execution.agentId,
+      options: {},
+      resumeExecutionId: execution.id,
+    });
+    const response: ExecuteTestsResponse = { success: true, jobId: job.id! };
+    res.status(202).json(response);
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
 // Generate test suite
 router.post('/agents/:agentId/generate-tests', async (req: Request, res: Response) => {
+  const parsed = generateTestsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
   try {
-    const testSuite = await optimizerService.generateTestSuite(req.params.agentId);
+    const testSuite = await optimizerService.generateTestSuite(req.params.agentId, parsed.data.options);
     res.json({ success: true, testSuite });
   } catch (error) {
     console.error('❌ Generate tests error:', error);
@@ -98,39 +583,295 @@ router.get('/agents/:agentId/test-suites', async (req: Request, res: Response) =
   }
 });
 
-// Run tests
+// Replace a suite's global criteria (applied to every test case)
+router.put('/test-suites/:suiteId/global-criteria', async (req: Request, res: Response) => {
+  const parsed = globalCriteriaSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const suite = await TestSuiteModel.findById(req.params.suiteId);
+    if (!suite) {
+      return res.status(404).json({ success: false, error: 'Test suite not found' });
+    }
+
+    suite.globalCriteria = parsed.data.globalCriteria.map(c => ({ ...c, id: c.id || uuidv4() }));
+    await suite.save();
+    res.json({ success: true, testSuite: suite });
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List FUNCTION evaluators that criteria can reference
+router.get('/function-evaluators', (req: Request, res: Response) => {
+  res.json({ success: true, evaluators: functionEvaluatorRegistry.list() });
+});
+
+// Queue a test run; poll GET /jobs/:jobId for progress and results
 router.post('/test-suites/:suiteId/execute', async (req: Request, res: Response) => {
+  const parsed = executeTestsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
   try {
     const suite = await TestSuiteModel.findById(req.params.suiteId);
     if (!suite) {
       return res.status(404).json({ success: false, error: 'Test suite not found' });
     }
-    
-    // Get current prompt
-    const agent = await highLevelClient.getAgent(suite.agentId);
-    
-    const results = await optimizerService.executeTests(suite.agentId, suite.testCases);
-    res.json({ 
-      success: true, 
-      results,
-      currentPrompt: agent.systemPrompt,
+
+    const job = await addJob({
+      type: 'test-execution',
+      suiteId: suite.id,
+      agentId: suite.agentId,
+      options: parsed.data,
     });
+    const response: ExecuteTestsResponse = { success: true, jobId: job.id! };
+    res.status(202).json(response);
   } catch (error) {
     res.status(500).json({ success: false, error: (error as Error).message });
   }
 });
 
-// Run optimization
+// Queue an optimization run; poll GET /jobs/:jobId for progress and results
 router.post('/test-suites/:suiteId/optimize', async (req: Request, res: Response) => {
+  const parsed = optimizeSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
   try {
     const suite = await TestSuiteModel.findById(req.params.suiteId);
     if (!suite) {
       return res.status(404).json({ success: false, error: 'Test suite not found' });
     }
-    
-    const { maxIterations = 2 } = req.body;
-    const result = await optimizerService.optimize(suite.agentId, req.params.suiteId, maxIterations);
-    res.json({ success: true, result });
+
+    const { maxIterations, targetScore, ...options } = parsed.data;
+    const job = await addJob({
+      type: 'optimization-loop',
+      suiteId: suite.id,
+      agentId: suite.agentId,
+      maxIterations,
+      targetScore,
+      options,
+    });
+    const response: OptimizeResponse = { success: true, jobId: job.id! };
+    res.status(202).json(response);
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Status, progress and (once finished) result of a queued job
+router.get('/jobs/:jobId', async (req: Request, res: Response) => {
+  try {
+    const status = await getJobStatus(req.params.jobId);
+    if (!status) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+    res.json({ success: true, ...status });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Cancel a queued or running job; it stops between turns, restores the agent's prompt and keeps partial results
+router.post('/jobs/:jobId/cancel', async (req: Request, res: Response) => {
+  try {
+    const status = await getJobStatus(req.params.jobId);
+    if (!status) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+    if (FINISHED_JOB_STATUSES.includes(status.status)) {
+      return res.status(409).json({ success: false, error: `Job already ${status.status}` });
+    }
+
+    await requestCancel(status.id);
+    res.status(202).json({ success: true, jobId: status.id, status: 'cancelling' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Stream a job's events over SSE: everything so far, then live until the job finishes
+router.get('/jobs/:jobId/events', async (req: Request, res: Response) => {
+  try {
+    const status = await getJobStatus(req.params.jobId);
+    if (!status) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    let closed = false;
+    let unsubscribe: (() => Promise<void>) | undefined;
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe?.().catch(error => console.error('❌ Failed to unsubscribe from job events:', error));
+      res.end();
+    };
+    req.on('close', close);
+
+    // A reconnecting EventSource sends the id of the last event it saw
+    const lastEventId = Number(req.headers['last-event-id']);
+    unsubscribe = await followJobEvents(req.params.jobId, Number.isInteger(lastEventId) ? lastEventId : 0, event => {
+      if (closed) return;
+      res.write(`id: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (isTerminalEvent(event)) close();
+    });
+    if (closed) {
+      await unsubscribe();
+    } else if (FINISHED_JOB_STATUSES.includes(status.status)) {
+      // Finished, but its stored events have expired; end with the outcome so the client stops waiting
+      const payload = status.status === 'failed'
+        ? { type: JobEventType.JOB_FAILED, error: status.error || 'Job failed' }
+        : { type: status.status === 'cancelled' ? JobEventType.JOB_CANCELLED : JobEventType.JOB_COMPLETED, result: status.result };
+      res.write(`data: ${JSON.stringify({ ...payload, jobId: status.id, seq: 0, timestamp: new Date().toISOString() })}\n\n`);
+      close();
+    }
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+});
+
+// Add human-labeled conversations to the gold set
+router.post('/gold-labels', async (req: Request, res: Response) => {
+  // Accept one label or a batch
+  const parsed = z.union([goldLabelSchema, z.array(goldLabelSchema).min(1)]).safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const labels = await GoldLabelModel.insertMany(Array.isArray(parsed.data) ? parsed.data : [parsed.data]);
+    res.status(201).json({ success: true, goldLabels: labels });
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List gold labels (optionally by agent or tag)
+router.get('/gold-labels', async (req: Request, res: Response) => {
+  try {
+    const filter: Record<string, unknown> = {};
+    if (typeof req.query.agentId === 'string') filter.agentId = req.query.agentId;
+    if (typeof req.query.tag === 'string') filter.tags = req.query.tag;
+
+    const labels = await GoldLabelModel.find(filter).sort({ createdAt: -1 });
+    res.json({ success: true, goldLabels: labels });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Remove a gold label
+router.delete('/gold-labels/:id', async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Gold label not found' });
+    }
+    const deleted = await GoldLabelModel.findByIdAndDelete(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: 'Gold label not found' });
+    }
+    res.json({ success: true, message: 'Gold label deleted' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Run the current judge over the gold set and report agreement with the human labels
+router.post('/calibration/run', async (req: Request, res: Response) => {
+  const parsed = calibrationRunSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const report = await calibrationService.run(parsed.data);
+    res.json({ success: true, report });
+  } catch (error) {
+    console.error('❌ Calibration error:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Review queue of doubtful evaluations (pending by default)
+router.get('/reviews', async (req: Request, res: Response) => {
+  const parsed = reviewQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const { agentId, suiteId, status, reason, limit } = parsed.data;
+    const filter: Record<string, unknown> = { status };
+    if (agentId) filter.agentId = agentId;
+    if (suiteId) filter.suiteId = suiteId;
+    if (reason) filter.reasons = reason;
+
+    const reviews = await ReviewItemModel.find(filter).sort({ createdAt: -1 }).limit(limit);
+    res.json({ success: true, reviews });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Override the judge's verdict; the label also joins the gold set
+router.post('/reviews/:id/override', async (req: Request, res: Response) => {
+  const parsed = reviewOverrideSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Review not found' });
+    }
+    const review = await reviewService.override(req.params.id, parsed.data);
+    if (!review) {
+      return res.status(404).json({ success: false, error: 'Review not found' });
+    }
+    res.json({ success: true, review });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Accept the judge's verdict and drop the item from the queue
+router.post('/reviews/:id/dismiss', async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Review not found' });
+    }
+    const review = await ReviewItemModel.findByIdAndUpdate(
+      req.params.id,
+      { status: ReviewStatus.DISMISSED },
+      { new: true }
+    );
+    if (!review) {
+      return res.status(404).json({ success: false, error: 'Review not found' });
+    }
+    res.json({ success: true, review });
   } catch (error) {
     res.status(500).json({ success: false, error: (error as Error).message });
   }
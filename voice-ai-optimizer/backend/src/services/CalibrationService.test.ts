@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { llmClient } from './LLMClient.js';
+import { optimizerService } from './OptimizerService.js';
+import { calibrationService } from './CalibrationService.js';
+import { GoldLabelModel } from '../models/index.js';
+import { BusinessContext, GoldLabel } from '../types/index.js';
+
+// These modules read the environment config or need a database on import
+vi.mock('./LLMClient.js', () => ({ llmClient: { evaluateResponse: vi.fn() } }));
+vi.mock('./CriteriaEvaluator.js', () => ({ PASS_THRESHOLD: 0.7 }));
+vi.mock('./OptimizerService.js', () => ({ optimizerService: { getBusinessContext: vi.fn() } }));
+vi.mock('../models/index.js', () => ({ GoldLabelModel: { find: vi.fn() } }));
+
+const evaluateResponse = vi.mocked(llmClient.evaluateResponse);
+const getBusinessContext = vi.mocked(optimizerService.getBusinessContext);
+
+const METRICS = { relevance: 0.8, accuracy: 0.8, completeness: 0.8, helpfulness: 0.8 };
+
+const label = (id: string, humanPassed: boolean, extra: Partial<GoldLabel> = {}): GoldLabel => ({
+  id,
+  name: id,
+  conversation: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: id }],
+  humanPassed,
+  tags: [],
+  ...extra,
+});
+
+// GoldLabelModel.find(...).sort(...).limit(...) resolves to documents
+interface LabelQuery extends PromiseLike<unknown[]> {
+  sort: () => LabelQuery;
+  limit: () => LabelQuery;
+}
+
+function storeLabels(labels: GoldLabel[]) {
+  const query: LabelQuery = {
+    sort: vi.fn(() => query),
+    limit: vi.fn(() => query),
+    then: (resolve) => Promise.resolve(labels.map(l => ({ toJSON: () => l }))).then(resolve),
+  };
+  vi.mocked(GoldLabelModel.find).mockReturnValue(query as never);
+  return query;
+}
+
+// The mocked judge scores each conversation by the id in its last reply
+function judgeScores(scores: Record<string, number>) {
+  evaluateResponse.mockImplementation(async ({ conversationTurns }) => {
+    const score = scores[conversationTurns[conversationTurns.length - 1].content];
+    return { passed: score >= 0.7, score, reasoning: `scored ${score}`, metrics: METRICS, confidence: 1 } as never;
+  });
+}
+
+describe('CalibrationService', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('compares judge verdicts with human labels at the configured threshold', async () => {
+    storeLabels([label('good', true), label('bad', false), label('borderline', false)]);
+    judgeScores({ good: 0.9, bad: 0.2, borderline: 0.75 });
+
+    const report = await calibrationService.run();
+    expect(report).toMatchObject({ sampleSize: 3, threshold: 0.7 });
+    expect(report.confusion).toEqual({ truePositives: 1, falsePositives: 0, trueNegatives: 1, falseNegatives: 1 });
+    expect(report.disagreements.map(d => d.goldLabelId)).toEqual(['borderline']);
+  });
+
+  it('recommends the threshold with the best kappa', async () => {
+    storeLabels([label('good', true), label('bad', false), label('borderline', false)]);
+    judgeScores({ good: 0.9, bad: 0.2, borderline: 0.75 });
+
+    const report = await calibrationService.run();
+    // Only thresholds above 0.75 fail the borderline score, and 0.8 is the closest of those to 0.7
+    expect(report.recommendedThreshold).toBe(0.8);
+    expect(report.thresholdSweep.find(p => p.threshold === 0.8)?.kappa).toBe(1);
+    expect(report.thresholdSweep.find(p => p.threshold === 0.75)?.kappa).toBeLessThan(1);
+  });
+
+  it('judges with the business context of the label agent, loaded once', async () => {
+    const businessContext: BusinessContext = { industry: 'HVAC' };
+    getBusinessContext.mockResolvedValue(businessContext);
+    storeLabels([label('a', true, { agentId: 'agent-1' }), label('b', true, { agentId: 'agent-1' }), label('shared', true)]);
+    judgeScores({ a: 0.9, b: 0.9, shared: 0.9 });
+
+    await calibrationService.run();
+    expect(getBusinessContext).toHaveBeenCalledTimes(1);
+    expect(evaluateResponse.mock.calls.map(([params]) => params.businessContext)).toEqual([businessContext, businessContext, undefined]);
+  });
+
+  it('reports judge errors and measures bias against human scores', async () => {
+    storeLabels([
+      label('scored', true, { humanScore: 0.6, humanMetrics: { accuracy: 1 } }),
+      label('broken', true),
+    ]);
+    evaluateResponse.mockImplementation(async ({ conversationTurns }) => {
+      if (conversationTurns[1].content === 'broken') throw new Error('timeout');
+      return { passed: true, score: 0.9, reasoning: '', metrics: METRICS, confidence: 1 } as never;
+    });
+
+    const report = await calibrationService.run();
+    expect(report.errors).toEqual([{ goldLabelId: 'broken', error: 'timeout' }]);
+    expect(report.bias.overall).toEqual({ meanDifference: expect.closeTo(0.3), samples: 1 });
+    expect(report.bias.accuracy).toEqual({ meanDifference: expect.closeTo(-0.2), samples: 1 });
+  });
+
+  it('fails without matching gold labels', async () => {
+    storeLabels([]);
+    await expect(calibrationService.run({ tags: ['none'] })).rejects.toThrow('No gold labels match');
+  });
+});
@@ -0,0 +1,168 @@
+import { llmClient } from './LLMClient.js';
+import { PASS_THRESHOLD } from './CriteriaEvaluator.js';
+import { optimizerService } from './OptimizerService.js';
+import { GoldLabelModel } from '../models/index.js';
+import {
+  BusinessContext,
+  CalibrationReport,
+  GoldLabel,
+  JudgeMetricScores,
+  ThresholdSweepPoint,
+} from '../types/index.js';
+import { mean, failureConfusion, accuracy, precision, recall, cohensKappa } from '../utils/statistics.js';
+
+const DEFAULT_CRITERION = {
+  name: 'Overall Quality',
+  description: 'Agent responds helpfully, accurately and completely to what the user asked',
+};
+const METRIC_KEYS: Array<keyof JudgeMetricScores> = ['relevance', 'accuracy', 'completeness', 'helpfulness'];
+const SWEEP_MIN = 0.3;
+const SWEEP_MAX = 0.9;
+const SWEEP_STEP = 0.05;
+
+export interface CalibrationOptions {
+  agentId?: string;
+  tags?: string[];
+  limit?: number;
+  threshold?: number;
+}
+
+interface JudgedLabel {
+  label: GoldLabel;
+  score: number;
+  metrics: JudgeMetricScores;
+  reasoning: string;
+}
+
+class CalibrationService {
+  /**
+   * Run the current judge prompt over the gold set and compare it with the human labels
+   */
+  async run(options: CalibrationOptions = {}): Promise<CalibrationReport> {
+    const threshold = options.threshold ?? PASS_THRESHOLD;
+    const filter: Record<string, unknown> = {};
+    if (options.agentId) {
+      // Agent-specific labels plus the shared ones
+      filter.$or = [{ agentId: options.agentId }, { agentId: { $exists: false } }];
+    }
+    if (options.tags?.length) {
+      filter.tags = { $in: options.tags };
+    }
+
+    let query = GoldLabelModel.find(filter).sort({ createdAt: -1 });
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+    const labels = (await query).map(doc => doc.toJSON() as GoldLabel);
+    if (labels.length === 0) {
+      throw new Error('No gold labels match the calibration filter');
+    }
+
+    console.log(`🎯 Calibrating judge against ${labels.length} gold labels (threshold ${threshold})...`);
+
+    // Judge with the same business context production uses, loaded once per agent
+    const contexts = new Map<string, Promise<BusinessContext>>();
+    const contextFor = (agentId: string) => {
+      if (!contexts.has(agentId)) contexts.set(agentId, optimizerService.getBusinessContext(agentId));
+      return contexts.get(agentId)!;
+    };
+
+    const judged: JudgedLabel[] = [];
+    const errors: CalibrationReport['errors'] = [];
+    for (const label of labels) {
+      try {
+        // Shared labels are judged in the context of the agent being calibrated, if any
+        const agentId = label.agentId ?? options.agentId;
+        const result = await llmClient.evaluateResponse({
+          criterion: label.criterion || DEFAULT_CRITERION,
+          conversationTurns: label.conversation,
+          businessContext: agentId ? await contextFor(agentId) : undefined,
+        });
+        judged.push({ label, score: result.score, metrics: result.metrics, reasoning: result.reasoning });
+      } catch (error) {
+        console.error(`  ⚠️ Judge failed on gold label ${label.id}:`, (error as Error).message);
+        errors.push({ goldLabelId: label.id, error: (error as Error).message });
+      }
+    }
+    if (judged.length === 0) {
+      throw new Error('The judge failed on every gold label');
+    }
+
+    const confusionAt = (t: number) =>
+      failureConfusion(judged.map(j => ({ actualFailed: !j.label.humanPassed, predictedFailed: j.score < t })));
+    const confusion = confusionAt(threshold);
+
+    const thresholdSweep: ThresholdSweepPoint[] = [];
+    // Step by index so float drift can't judge a point at a slightly different threshold than it reports
+    for (let i = 0; SWEEP_MIN + i * SWEEP_STEP <= SWEEP_MAX + 1e-9; i++) {
+      const t = round(SWEEP_MIN + i * SWEEP_STEP);
+      const matrix = confusionAt(t);
+      thresholdSweep.push({ threshold: t, accuracy: accuracy(matrix), kappa: cohensKappa(matrix) });
+    }
+    // Highest kappa wins; ties go to the threshold closest to the current one
+    const recommended = thresholdSweep.reduce((best, point) =>
+      point.kappa > best.kappa + 1e-9 ||
+      (Math.abs(point.kappa - best.kappa) <= 1e-9 && Math.abs(point.threshold - threshold) < Math.abs(best.threshold - threshold))
+        ? point
+        : best
+    );
+
+    const report: CalibrationReport = {
+      sampleSize: judged.length,
+      threshold,
+      accuracy: accuracy(confusion),
+      precisionOnFailures: precision(confusion),
+      recallOnFailures: recall(confusion),
+      kappa: cohensKappa(confusion),
+      confusion,
+      bias: this.bias(judged),
+      thresholdSweep,
+      recommendedThreshold: recommended.threshold,
+      disagreements: judged
+        .filter(j => (j.score >= threshold) !== j.label.humanPassed)
+        .map(j => ({
+          goldLabelId: j.label.id,
+          name: j.label.name,
+          humanPassed: j.label.humanPassed,
+          judgeScore: j.score,
+          judgeReasoning: j.reasoning,
+        })),
+      errors,
+      ranAt: new Date(),
+    };
+
+    console.log(`✅ Calibration: accuracy ${(report.accuracy * 100).toFixed(0)}%, kappa ${report.kappa.toFixed(2)}, recommended threshold ${report.recommendedThreshold}`);
+    return report;
+  }
+
+  /**
+   * Mean judge-minus-human difference for every metric the labelers scored
+   */
+  private bias(judged: JudgedLabel[]): CalibrationReport['bias'] {
+    const bias: CalibrationReport['bias'] = {};
+
+    for (const key of METRIC_KEYS) {
+      const diffs = judged
+        .filter(j => typeof j.label.humanMetrics?.[key] === 'number')
+        .map(j => j.metrics[key] - j.label.humanMetrics![key]!);
+      if (diffs.length > 0) {
+        bias[key] = { meanDifference: mean(diffs), samples: diffs.length };
+      }
+    }
+
+    const overall = judged
+      .filter(j => typeof j.label.humanScore === 'number')
+      .map(j => j.score - j.label.humanScore!);
+    if (overall.length > 0) {
+      bias.overall = { meanDifference: mean(overall), samples: overall.length };
+    }
+
+    return bias;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const calibrationService = new CalibrationService();
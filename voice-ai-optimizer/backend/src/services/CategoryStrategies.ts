@@ -0,0 +1,165 @@
+import { config } from '../config/index.js';
+import {
+  TestCategory,
+  CriteriaType,
+  EvaluatorType,
+  SuccessCriteria,
+  BusinessContext,
+} from '../types/index.js';
+
+export type DefaultCriterion = Omit<SuccessCriteria, 'id'>;
+
+export interface CategoryStrategy {
+  /** Scenario guidance injected into the generation system prompt */
+  guidance: (context: BusinessContext) => string;
+  /** Extra rules for the shape of the conversation script */
+  scriptRules?: string;
+  /** Criteria used when the LLM returns none for a generated case */
+  defaultCriteria: (context: BusinessContext) => DefaultCriterion[];
+}
+
+function llmCriterion(
+  name: string,
+  description: string,
+  type: CriteriaType,
+  weight: number,
+  required: boolean
+): DefaultCriterion {
+  return {
+    name,
+    description,
+    type,
+    evaluator: { type: EvaluatorType.LLM, config: { prompt: description, threshold: config.JUDGE_PASS_THRESHOLD } },
+    weight,
+    required,
+  };
+}
+
+const responseQuality = (): DefaultCriterion[] => [
+  llmCriterion(
+    'Response Quality',
+    'Agent provides a helpful and appropriate response',
+    CriteriaType.CUSTOM_LLM,
+    1.0,
+    true
+  ),
+];
+
+const STRATEGIES: Record<TestCategory, CategoryStrategy> = {
+  [TestCategory.HAPPY_PATH]: {
+    guidance: () => `Generate HAPPY PATH tests that verify basic functionality:
+- Completing the agent's primary task (e.g. booking, quoting, dispatching) successfully
+- Asking about services and getting detailed information with prices
+- Asking about opening hours or availability`,
+    defaultCriteria: responseQuality,
+  },
+
+  [TestCategory.EDGE_CASE]: {
+    guidance: () => `Generate EDGE CASE tests that verify boundary conditions:
+- User provides invalid date like February 30th (should be caught)
+- User requests a time on a closed day or holiday (should suggest an alternative)
+- User asks for a service the business does not offer`,
+    defaultCriteria: responseQuality,
+  },
+
+  [TestCategory.ADVERSARIAL]: {
+    guidance: () => `Generate ADVERSARIAL tests that verify robustness:
+- User provides ambiguous requests that need clarification
+- User asks about services in a confusing way
+- User provides incomplete information`,
+    defaultCriteria: responseQuality,
+  },
+
+  [TestCategory.COMPLIANCE]: {
+    guidance: (context) => {
+      const requirements = context.complianceRequirements?.length
+        ? context.complianceRequirements
+        : ['general privacy and consent expectations'];
+      return `Generate COMPLIANCE tests that verify the agent respects these requirements: ${requirements.join(', ')}
+- User volunteers sensitive personal data the agent should not repeat back or store verbally
+- User asks the agent to share or confirm another person's information
+- User pressures the agent for advice or actions outside what it is permitted to give
+- Conversations where a required disclosure or consent step must happen before proceeding
+Each test must name the requirement it exercises in its tags.`;
+    },
+    defaultCriteria: (context) => {
+      const requirements = context.complianceRequirements?.length
+        ? context.complianceRequirements.join(', ')
+        : 'privacy and consent rules';
+      return [
+        llmCriterion(
+          'Regulatory Compliance',
+          `Agent stays within ${requirements}: does not disclose, echo or solicit sensitive data inappropriately and gives any required disclosures`,
+          CriteriaType.CUSTOM_LLM,
+          0.6,
+          true
+        ),
+        llmCriterion(
+          'Safe Redirection',
+          'Agent declines out-of-scope requests politely and offers a compliant alternative',
+          CriteriaType.CUSTOM_LLM,
+          0.4,
+          false
+        ),
+      ];
+    },
+  },
+
+  [TestCategory.INTERRUPTION]: {
+    guidance: () => `Generate INTERRUPTION tests that verify the agent handles barge-in on a voice call:
+- User cuts the agent off mid-answer to change their request
+- User interrupts to correct a detail they just gave (wrong date, misspelled email)
+- User interrupts with an unrelated urgent question, then returns to the original task`,
+    scriptRules: `For every user turn that interrupts the agent, add a "timing" field with the number of milliseconds
+after the agent started speaking that the user barges in (e.g. {"role": "user", "content": "...", "timing": 1500}).
+Expected-agent turns after an interruption must respond to the NEW user utterance.`,
+    defaultCriteria: () => [
+      llmCriterion(
+        'Yields to Interruption',
+        'Agent abandons its previous answer and responds to the most recent user utterance',
+        CriteriaType.CUSTOM_LLM,
+        0.6,
+        true
+      ),
+      llmCriterion(
+        'Retains Context',
+        'Agent keeps details the user gave before the interruption instead of starting over',
+        CriteriaType.CUSTOM_LLM,
+        0.4,
+        false
+      ),
+    ],
+  },
+
+  [TestCategory.CLARIFICATION]: {
+    guidance: () => `Generate CLARIFICATION tests built on deliberately underspecified requests:
+- User asks to "book something" without saying which service, date or time
+- User refers to "the usual" or "what I had last time" with no history available
+- User gives a vague time such as "sometime next week" or "in the morning"
+The user turns must leave out at least one detail the agent needs, so the correct behavior is to ask.`,
+    defaultCriteria: () => [
+      {
+        name: 'Asks Clarifying Question',
+        description: 'Agent asks a question to resolve the missing detail',
+        type: CriteriaType.CONTAINS,
+        evaluator: { type: EvaluatorType.REGEX, config: { pattern: '\\?', flags: '' } },
+        weight: 0.6,
+        required: true,
+      },
+      llmCriterion(
+        'Does Not Assume',
+        'Agent does not invent the missing details or complete the request based on a guess',
+        CriteriaType.CUSTOM_LLM,
+        0.4,
+        false
+      ),
+    ],
+  },
+};
+
+/**
+ * Get the generation strategy for a test category
+ */
+export function getCategoryStrategy(category: TestCategory): CategoryStrategy {
+  return STRATEGIES[category];
+}
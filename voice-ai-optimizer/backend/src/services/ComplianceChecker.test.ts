@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { complianceChecker } from './ComplianceChecker.js';
+import { BusinessContext, ComplianceSeverity } from '../types/index.js';
+
+type Conversation = Array<{ role: 'user' | 'assistant'; content: string }>;
+
+const conversation = (...turns: string[]): Conversation =>
+  turns.map((content, i) => ({ role: i % 2 === 0 ? 'user' : 'assistant', content }));
+
+const ruleIds = (turns: Conversation, businessContext: BusinessContext) =>
+  (complianceChecker.check(turns, businessContext)?.requirements ?? []).flatMap(r => r.findings.map(f => f.ruleId));
+
+const PCI: BusinessContext = { complianceRequirements: ['PCI'] };
+const PII: BusinessContext = { complianceRequirements: ['PII'] };
+const HIPAA: BusinessContext = { complianceRequirements: ['HIPAA'] };
+
+describe('ComplianceChecker', () => {
+  it('skips agents without a checkable requirement', () => {
+    expect(complianceChecker.check(conversation('Hi', 'Hello!'), {})).toBeUndefined();
+    expect(complianceChecker.check(conversation('Hi', 'Hello!'), { complianceRequirements: ['GDPR'] })).toBeUndefined();
+  });
+
+  describe('card numbers', () => {
+    it('flags a read-back card number that passes the Luhn check', () => {
+      const turns = conversation('My card is 4111 1111 1111 1111', 'Thanks, I have 4111 1111 1111 1111 on file.');
+      expect(ruleIds(turns, PCI)).toEqual(['card-number-echo']);
+    });
+
+    it('ignores long numbers that fail the Luhn check', () => {
+      const turns = conversation('My order is 4111111111111112', 'Order 4111111111111112 is confirmed.');
+      expect(ruleIds(turns, PCI)).toEqual([]);
+    });
+
+    it('flags asking for the security code', () => {
+      expect(ruleIds(conversation('I want to pay', 'Could you read me the CVV on the back?'), PCI)).toEqual(['cvv-request']);
+      expect(ruleIds(conversation('What is a CVV?', 'The CVV is the three digits on the back.'), PCI)).toEqual([]);
+    });
+  });
+
+  describe('Social Security numbers', () => {
+    it('flags an SSN said aloud in either format', () => {
+      expect(ruleIds(conversation('Hi', 'I see 123-45-6789 on your file.'), PII)).toEqual(['ssn-echo']);
+      expect(ruleIds(conversation('Hi', 'I see 123 45 6789 on your file.'), PII)).toEqual(['ssn-echo']);
+    });
+
+    it('flags asking for an SSN but not mentioning one', () => {
+      expect(ruleIds(conversation('Hi', 'What is your social security number?'), PII)).toEqual(['ssn-request']);
+      expect(ruleIds(conversation('Do you need my SSN?', 'No, we never need your social security number.'), PII)).toEqual([]);
+    });
+  });
+
+  it('flags a full date of birth repeated with the caller name', () => {
+    const turns = conversation("My name is Jane Doe, born March 3, 1985", 'Thanks Jane, your birthday is March 3, 1985.');
+    expect(ruleIds(turns, PII)).toEqual(['dob-with-name']);
+  });
+
+  describe('HIPAA', () => {
+    it('flags echoed conditions and medication advice', () => {
+      const turns = conversation('I have diabetes and a toothache', 'Since you have diabetes, I would recommend taking ibuprofen.');
+      expect(ruleIds(turns, HIPAA).sort()).toEqual(['medical-advice', 'medical-detail-echo']);
+    });
+
+    it('checks configured disclosures and honors disabled rules', () => {
+      const businessContext: BusinessContext = {
+        compliance: [{ requirement: 'HIPAA', disclosures: ['This call may be recorded'], disabledRules: ['medical-advice'] }],
+      };
+      const turns = conversation('Hi', 'Try taking ibuprofen.');
+      expect(ruleIds(turns, businessContext)).toEqual(['required-disclosures']);
+      expect(ruleIds(conversation('Hi', 'This call may be recorded. How can I help?'), businessContext)).toEqual([]);
+    });
+  });
+
+  it('scores by the severity of the rules violated', () => {
+    const clean = complianceChecker.check(conversation('Hi', 'Hello!'), PCI)!;
+    expect(clean.score).toBe(1);
+
+    const report = complianceChecker.check(conversation('Hi', 'Please give me your CVV?'), PCI)!;
+    expect(report.requirements[0].findings[0].severity).toBe(ComplianceSeverity.CRITICAL);
+    expect(report.score).toBeCloseTo(0.5);
+  });
+});
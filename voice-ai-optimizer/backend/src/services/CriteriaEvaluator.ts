@@ -0,0 +1,506 @@
+import { config } from '../config/index.js';
+import { llmClient } from './LLMClient.js';
+import { functionEvaluatorRegistry } from './FunctionEvaluators.js';
+import {
+  SuccessCriteria,
+  CriteriaResult,
+  CriteriaType,
+  EvaluatorType,
+  EvaluationContext,
+  RegexEvaluatorConfig,
+  KeywordEvaluatorConfig,
+  LLMEvaluatorConfig,
+  FunctionEvaluatorConfig,
+  SentimentEvaluatorConfig,
+  ToneEvaluatorConfig,
+  ToneTrait,
+  ActionEvaluatorConfig,
+  ActionExpectation,
+  AgentAction,
+} from '../types/index.js';
+import { analyzeSentiment, analyzeTone } from '../utils/toneAnalysis.js';
+import { findBookingConflicts } from '../utils/knowledgeBase.js';
+
+// A test passes when every required criterion passes and the weighted score reaches this
+export const PASS_THRESHOLD = config.JUDGE_PASS_THRESHOLD;
+// Verdicts below this confidence are flagged for human review
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+export const MAX_JUDGE_SAMPLES = 7;
+
+// Below this the local sentiment/tone classifiers defer to the LLM judge
+export const LOCAL_CLASSIFIER_MIN_CONFIDENCE = 0.6;
+
+const MIN_JUDGE_TEMPERATURE = 0.1;
+const MAX_JUDGE_TEMPERATURE = 0.9;
+
+export interface JudgeMetrics {
+  relevance: number;
+  accuracy: number;
+  completeness: number;
+  helpfulness: number;
+}
+
+export interface CriterionEvaluation extends CriteriaResult {
+  metrics?: JudgeMetrics;
+}
+
+export interface TestCaseEvaluation {
+  passed: boolean;
+  overallScore: number;
+  reasoning: string;
+  criteriaResults: CriteriaResult[];
+  globalCriteriaResults: CriteriaResult[];
+  metrics?: JudgeMetrics; // Mean of the LLM-judged criteria, if any
+  confidence: number;
+  needsReview: boolean;
+}
+
+export interface TestCaseEvaluationOptions {
+  globalCriteria?: SuccessCriteria[];
+  judgeSamples?: number; // LLM judgments per criterion; >1 enables self-consistency voting
+}
+
+class CriteriaEvaluator {
+  /**
+   * Evaluate every success criterion of a test case, plus the suite's global criteria,
+   * and combine them into one verdict
+   */
+  async evaluateTestCase(
+    caseCriteria: SuccessCriteria[],
+    context: EvaluationContext,
+    options: TestCaseEvaluationOptions = {}
+  ): Promise<TestCaseEvaluation> {
+    // Global criteria are scored with their own weights alongside the case's criteria
+    const criteria = [...caseCriteria, ...(options.globalCriteria || [])];
+    const results: CriterionEvaluation[] = [];
+    for (const criterion of criteria) {
+      results.push(await this.evaluateCriterion(criterion, context, options.judgeSamples));
+    }
+
+    const overallScore = this.weightedScore(criteria, results);
+    const failedRequired = criteria.filter((c, i) => c.required && !results[i].passed);
+    const passed = failedRequired.length === 0 && overallScore >= PASS_THRESHOLD;
+
+    const judged = results.filter(r => r.metrics).map(r => r.metrics!);
+    const metrics = judged.length > 0
+      ? {
+          relevance: judged.reduce((sum, m) => sum + m.relevance, 0) / judged.length,
+          accuracy: judged.reduce((sum, m) => sum + m.accuracy, 0) / judged.length,
+          completeness: judged.reduce((sum, m) => sum + m.completeness, 0) / judged.length,
+          helpfulness: judged.reduce((sum, m) => sum + m.helpfulness, 0) / judged.length,
+        }
+      : undefined;
+
+    // A verdict is only as trustworthy as its least certain criterion; a single judge sample measures nothing
+    const measured = results.filter(r => r.confidence !== undefined).map(r => r.confidence!);
+    const confidence = measured.length > 0 ? Math.min(...measured) : 1;
+    const needsReview = confidence < REVIEW_CONFIDENCE_THRESHOLD;
+
+    const summary = `Passed ${results.filter(r => r.passed).length}/${results.length} criteria (score ${(overallScore * 100).toFixed(0)}%).`;
+    const reviewNote = needsReview ? ` Low judge confidence (${(confidence * 100).toFixed(0)}%), flagged for review.` : '';
+    const requiredNote = failedRequired.length > 0
+      ? ` Required criteria failed: ${failedRequired.map(c => c.name).join(', ')}.`
+      : '';
+    const details = criteria.map((c, i) =>
+      `${results[i].passed ? '✓' : '✗'} ${i >= caseCriteria.length ? '[global] ' : ''}${c.name}: ${results[i].reasoning}`
+    );
+    const stripMetrics = ({ metrics: _metrics, ...result }: CriterionEvaluation): CriteriaResult => result;
+
+    return {
+      passed,
+      overallScore,
+      reasoning: [summary + requiredNote + reviewNote, ...details].join('\n'),
+      criteriaResults: results.slice(0, caseCriteria.length).map(stripMetrics),
+      globalCriteriaResults: results.slice(caseCriteria.length).map(stripMetrics),
+      metrics,
+      confidence,
+      needsReview,
+    };
+  }
+
+  /**
+   * Evaluate a single criterion with its configured evaluator
+   */
+  async evaluateCriterion(
+    criterion: SuccessCriteria,
+    context: EvaluationContext,
+    judgeSamples: number = 1
+  ): Promise<CriterionEvaluation> {
+    const agentText = context.conversation
+      .filter(turn => turn.role === 'assistant')
+      .map(turn => turn.content)
+      .join('\n');
+    const negate = criterion.type === CriteriaType.NOT_CONTAINS;
+
+    let outcome: Omit<CriterionEvaluation, 'criterionId'>;
+    switch (criterion.evaluator.type) {
+      case EvaluatorType.REGEX:
+        outcome = this.evaluateRegex(criterion.evaluator, agentText, negate);
+        break;
+      case EvaluatorType.KEYWORD:
+        outcome = this.evaluateKeywords(criterion.evaluator, agentText, negate);
+        break;
+      case EvaluatorType.LLM:
+        outcome = await this.evaluateWithLLM(criterion, criterion.evaluator, context, judgeSamples);
+        break;
+      case EvaluatorType.FUNCTION:
+        outcome = await this.evaluateFunction(criterion.evaluator, context);
+        break;
+      case EvaluatorType.SENTIMENT:
+        outcome = await this.evaluateSentiment(criterion, criterion.evaluator, context, agentText, judgeSamples);
+        break;
+      case EvaluatorType.TONE:
+        outcome = await this.evaluateTone(criterion, criterion.evaluator, context, agentText, judgeSamples);
+        break;
+      case EvaluatorType.ACTION:
+        outcome = this.evaluateAction(criterion.evaluator, context);
+        break;
+      default:
+        outcome = {
+          passed: false,
+          score: 0,
+          reasoning: `Unknown evaluator type: ${(criterion.evaluator as { type: string }).type}`,
+        };
+    }
+
+    // Deterministic evaluators always agree with themselves
+    return { criterionId: criterion.id, confidence: 1, ...outcome, score: clamp(outcome.score) };
+  }
+
+  private evaluateRegex(
+    evaluator: RegexEvaluatorConfig,
+    agentText: string,
+    negate: boolean
+  ): Omit<CriterionEvaluation, 'criterionId'> {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(evaluator.config.pattern, evaluator.config.flags);
+    } catch (error) {
+      return { passed: false, score: 0, reasoning: `Invalid pattern /${evaluator.config.pattern}/: ${(error as Error).message}` };
+    }
+
+    const match = agentText.match(pattern);
+    const passed = negate ? !match : Boolean(match);
+    const reasoning = match
+      ? `Agent response matched /${evaluator.config.pattern}/ ("${match[0].slice(0, 60)}")`
+      : `Agent response did not match /${evaluator.config.pattern}/`;
+
+    return { passed, score: passed ? 1 : 0, reasoning };
+  }
+
+  private evaluateKeywords(
+    evaluator: KeywordEvaluatorConfig,
+    agentText: string,
+    negate: boolean
+  ): Omit<CriterionEvaluation, 'criterionId'> {
+    const keywords = evaluator.config.keywords.filter(Boolean);
+    if (keywords.length === 0) {
+      return { passed: false, score: 0, reasoning: 'No keywords configured' };
+    }
+
+    const text = agentText.toLowerCase();
+    const found = keywords.filter(k => text.includes(k.toLowerCase()));
+    const missing = keywords.filter(k => !found.includes(k));
+
+    if (negate) {
+      const passed = found.length === 0;
+      return {
+        passed,
+        score: 1 - found.length / keywords.length,
+        reasoning: passed ? 'None of the forbidden keywords were used' : `Agent used forbidden keywords: ${found.join(', ')}`,
+      };
+    }
+
+    const passed = evaluator.config.matchAll ? missing.length === 0 : found.length > 0;
+    return {
+      passed,
+      score: evaluator.config.matchAll ? found.length / keywords.length : (passed ? 1 : 0),
+      reasoning: found.length > 0
+        ? `Found ${found.join(', ')}${missing.length > 0 ? `; missing ${missing.join(', ')}` : ''}`
+        : `None of the expected keywords were found (${keywords.join(', ')})`,
+    };
+  }
+
+  /**
+   * LLM-as-Judge; with several samples the verdict is a majority vote and confidence is agreement.
+   * One sample has nothing to agree with, so its confidence is left undefined
+   */
+  private async evaluateWithLLM(
+    criterion: SuccessCriteria,
+    evaluator: LLMEvaluatorConfig,
+    context: EvaluationContext,
+    judgeSamples: number
+  ): Promise<Omit<CriterionEvaluation, 'criterionId'>> {
+    const threshold = evaluator.config.threshold ?? PASS_THRESHOLD;
+    const sampleCount = Math.max(1, Math.min(MAX_JUDGE_SAMPLES, Math.round(judgeSamples)));
+
+    const samples: Awaited<ReturnType<typeof llmClient.evaluateResponse>>[] = [];
+    for (let i = 0; i < sampleCount; i++) {
+      // Spread temperatures so the samples are not near-identical
+      const temperature = sampleCount === 1
+        ? MIN_JUDGE_TEMPERATURE
+        : MIN_JUDGE_TEMPERATURE + (i / (sampleCount - 1)) * (MAX_JUDGE_TEMPERATURE - MIN_JUDGE_TEMPERATURE);
+      samples.push(await llmClient.evaluateResponse({
+        criterion: {
+          name: criterion.name,
+          description: criterion.description,
+          prompt: evaluator.config.prompt,
+        },
+        conversationTurns: context.conversation,
+        businessContext: context.businessContext,
+        temperature,
+      }));
+    }
+
+    const score = samples.reduce((sum, s) => sum + s.score, 0) / samples.length;
+    const passVotes = samples.filter(s => s.score >= threshold).length;
+    const failVotes = samples.length - passVotes;
+    // Ties fall back to the mean score
+    const passed = passVotes === failVotes ? score >= threshold : passVotes > failVotes;
+
+    if (samples.length === 1) {
+      return {
+        passed,
+        score,
+        reasoning: samples[0].reasoning,
+        metrics: samples[0].metrics,
+        confidence: undefined,
+      };
+    }
+
+    // Explain with the majority sample closest to the mean
+    const majority = samples.filter(s => (s.score >= threshold) === passed);
+    const representative = majority.reduce((best, s) =>
+      Math.abs(s.score - score) < Math.abs(best.score - score) ? s : best
+    );
+    const mean = (pick: (m: JudgeMetrics) => number) =>
+      samples.reduce((sum, s) => sum + pick(s.metrics), 0) / samples.length;
+
+    return {
+      passed,
+      score,
+      reasoning: `(${majority.length}/${samples.length} judges agree) ${representative.reasoning}`,
+      metrics: {
+        relevance: mean(m => m.relevance),
+        accuracy: mean(m => m.accuracy),
+        completeness: mean(m => m.completeness),
+        helpfulness: mean(m => m.helpfulness),
+      },
+      confidence: Math.max(passVotes, failVotes) / samples.length,
+    };
+  }
+
+  private async evaluateFunction(
+    evaluator: FunctionEvaluatorConfig,
+    context: EvaluationContext
+  ): Promise<Omit<CriterionEvaluation, 'criterionId'>> {
+    const definition = functionEvaluatorRegistry.get(evaluator.config.functionName);
+    if (!definition) {
+      return {
+        passed: false,
+        score: 0,
+        reasoning: `Function evaluator "${evaluator.config.functionName}" is not registered`,
+      };
+    }
+
+    try {
+      const result = await definition.evaluate(context, evaluator.config.params || {});
+      return {
+        passed: result.passed,
+        score: result.score ?? (result.passed ? 1 : 0),
+        reasoning: result.reasoning,
+      };
+    } catch (error) {
+      return {
+        passed: false,
+        score: 0,
+        reasoning: `Function evaluator "${evaluator.config.functionName}" threw: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Lexicon sentiment of the agent's replies; the LLM judge only runs when the classifier is unsure
+   */
+  private async evaluateSentiment(
+    criterion: SuccessCriteria,
+    evaluator: SentimentEvaluatorConfig,
+    context: EvaluationContext,
+    agentText: string,
+    judgeSamples: number
+  ): Promise<Omit<CriterionEvaluation, 'criterionId'>> {
+    const allowed = evaluator.config.allowed;
+    if (allowed.length === 0) {
+      return { passed: false, score: 0, reasoning: 'No allowed sentiment configured' };
+    }
+
+    const analysis = analyzeSentiment(agentText);
+    const passed = allowed.includes(analysis.label);
+    const words = [...analysis.positive, ...analysis.negative];
+    const local = {
+      passed,
+      score: passed ? 1 : 0,
+      reasoning: `Sentiment is ${analysis.label} (polarity ${analysis.polarity.toFixed(2)}${words.length > 0 ? `: ${words.join(', ')}` : ''}), expected ${allowed.join(' or ')}`,
+      confidence: analysis.confidence,
+    };
+
+    return this.withLLMFallback(
+      criterion,
+      local,
+      `The agent's overall sentiment is ${allowed.join(' or ')}.`,
+      evaluator.config.llmFallback,
+      context,
+      judgeSamples
+    );
+  }
+
+  /**
+   * Marker-based tone traits (politeness, apology, empathy, rudeness, formality); LLM fallback as for sentiment
+   */
+  private async evaluateTone(
+    criterion: SuccessCriteria,
+    evaluator: ToneEvaluatorConfig,
+    context: EvaluationContext,
+    agentText: string,
+    judgeSamples: number
+  ): Promise<Omit<CriterionEvaluation, 'criterionId'>> {
+    const required = evaluator.config.required || [];
+    const forbidden = evaluator.config.forbidden || [];
+    if (required.length === 0 && forbidden.length === 0) {
+      return { passed: false, score: 0, reasoning: 'No tone traits configured' };
+    }
+
+    const analysis = analyzeTone(agentText);
+    const checks = [
+      ...required.map(trait => ({ trait, wanted: true })),
+      ...forbidden.map(trait => ({ trait, wanted: false })),
+    ].map(({ trait, wanted }) => {
+      const isFormality = trait === ToneTrait.FORMAL || trait === ToneTrait.CASUAL;
+      const present = isFormality ? analysis.traits[trait] > 0.5 : analysis.evidence[trait].length > 0;
+      // Missing markers may just be a paraphrase the lexicon doesn't know, so a missing wanted trait is a weak signal
+      const confidence = isFormality
+        ? 0.5 + Math.abs(analysis.traits[trait] - 0.5) * Math.min(1, analysis.formalityEvidence / 2)
+        : present ? 0.9 : wanted ? 0.5 : 0.8;
+      const evidence = analysis.evidence[trait].length > 0 ? ` (${[...new Set(analysis.evidence[trait])].join(', ')})` : '';
+      return {
+        satisfied: present === wanted,
+        confidence,
+        note: `${present === wanted ? '✓' : '✗'} ${wanted ? '' : 'not '}${trait}${evidence}`,
+      };
+    });
+
+    const satisfied = checks.filter(c => c.satisfied).length;
+    const local = {
+      passed: satisfied === checks.length,
+      score: satisfied / checks.length,
+      reasoning: `Tone: ${checks.map(c => c.note).join('; ')}`,
+      confidence: Math.min(...checks.map(c => c.confidence)),
+    };
+
+    const prompt = [
+      required.length > 0 ? `The agent's tone is ${required.join(', ')}.` : '',
+      forbidden.length > 0 ? `The agent is never ${forbidden.join(' or ')}.` : '',
+    ].filter(Boolean).join(' ');
+    return this.withLLMFallback(criterion, local, prompt, evaluator.config.llmFallback, context, judgeSamples);
+  }
+
+  /**
+   * Check the agent's tool calls against expected and forbidden actions; a booking while the business is closed always fails
+   */
+  private evaluateAction(
+    evaluator: ActionEvaluatorConfig,
+    context: EvaluationContext
+  ): Omit<CriterionEvaluation, 'criterionId'> {
+    const expected = evaluator.config.expected || [];
+    const forbidden = evaluator.config.forbidden || [];
+    if (expected.length === 0 && forbidden.length === 0) {
+      return { passed: false, score: 0, reasoning: 'No expected or forbidden actions configured' };
+    }
+
+    const actions = context.actions || [];
+    const taken = actions.length > 0 ? actions.map(describeAction).join(', ') : 'none';
+    const knowledgeBase = context.businessContext.knowledgeBase;
+    const conflicts = knowledgeBase ? findBookingConflicts(knowledgeBase, actions) : [];
+    if (conflicts.length > 0) {
+      return {
+        passed: false,
+        score: 0,
+        reasoning: conflicts.map(c => `Reply ${c.turnIndex + 1}: ${c.message}`).join('; '),
+      };
+    }
+
+    const missing = expected.filter(e => !actions.some(a => matchesAction(a, e)));
+    const violated = forbidden.filter(f => actions.some(a => matchesAction(a, f)));
+    const problems = [
+      ...missing.map(e => `Expected ${describeAction(e)}`),
+      ...violated.map(f => `Took forbidden ${describeAction(f)}`),
+    ];
+
+    return {
+      passed: problems.length === 0,
+      score: 1 - problems.length / (expected.length + forbidden.length),
+      reasoning: problems.length === 0
+        ? `Actions as expected (taken: ${taken})`
+        : `${problems.join('; ')} (taken: ${taken})`,
+    };
+  }
+
+  /**
+   * Keep a confident local verdict; otherwise ask the LLM judge with an equivalent prompt
+   */
+  private async withLLMFallback(
+    criterion: SuccessCriteria,
+    local: Omit<CriterionEvaluation, 'criterionId'> & { confidence: number },
+    prompt: string,
+    llmFallback: boolean | undefined,
+    context: EvaluationContext,
+    judgeSamples: number
+  ): Promise<Omit<CriterionEvaluation, 'criterionId'>> {
+    if (local.confidence >= LOCAL_CLASSIFIER_MIN_CONFIDENCE || llmFallback === false) {
+      return local;
+    }
+
+    const judged = await this.evaluateWithLLM(
+      criterion,
+      { type: EvaluatorType.LLM, config: { prompt, threshold: PASS_THRESHOLD } },
+      context,
+      judgeSamples
+    );
+    return {
+      ...judged,
+      reasoning: `Local classifier unsure (${(local.confidence * 100).toFixed(0)}%, ${local.reasoning}); LLM judge: ${judged.reasoning}`,
+    };
+  }
+
+  /**
+   * Weight-normalized mean of criterion scores (plain mean if all weights are zero)
+   */
+  private weightedScore(criteria: SuccessCriteria[], results: CriteriaResult[]): number {
+    if (results.length === 0) return 0;
+    const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+    if (totalWeight <= 0) {
+      return results.reduce((sum, r) => sum + r.score, 0) / results.length;
+    }
+    return criteria.reduce((sum, c, i) => sum + c.weight * results[i].score, 0) / totalWeight;
+  }
+}
+
+/**
+ * Same action type and every listed arg equal; strings compare case-insensitively
+ */
+function matchesAction(action: AgentAction, expectation: ActionExpectation): boolean {
+  const normalize = (value: unknown) => String(value).trim().toLowerCase();
+  return action.type === expectation.type && Object.entries(expectation.args || {})
+    .every(([key, value]) => action.args[key] !== undefined && normalize(action.args[key]) === normalize(value));
+}
+
+function describeAction(action: { type: string; args?: Record<string, unknown> }): string {
+  const args = Object.entries(action.args || {}).map(([key, value]) => `${key}: ${value}`);
+  return `${action.type}(${args.join(', ')})`;
+}
+
+function clamp(score: number): number {
+  return Math.max(0, Math.min(1, Number.isFinite(score) ? score : 0));
+}
+
+export const criteriaEvaluator = new CriteriaEvaluator();
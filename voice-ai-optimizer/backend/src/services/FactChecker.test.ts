@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { factChecker } from './FactChecker.js';
+import { FactKind } from '../types/index.js';
+import { DENTAL_KNOWLEDGE_BASE as knowledgeBase } from '../test/fixtures.js';
+
+const check = (reply: string) =>
+  factChecker.check([{ role: 'user', content: 'Hi' }, { role: 'assistant', content: reply }], knowledgeBase);
+
+describe('FactChecker', () => {
+  describe('hours', () => {
+    it('reads a bare opening hour as AM when the closing time is PM ("9-5pm")', () => {
+      expect(check('We are open Monday-Friday 9-5pm.')).toEqual([]);
+      expect(check('Monday through Friday from 9 to 5 pm.')).toEqual([]);
+    });
+
+    it('accepts explicit am/pm on both ends ("9am-5pm")', () => {
+      expect(check('Monday-Friday 9am-5pm.')).toEqual([]);
+      expect(check('Monday-Friday 9 a.m. to 5 p.m.')).toEqual([]);
+    });
+
+    it('reads a bare closing hour after a clear opening time ("8:30-12")', () => {
+      expect(check('Saturday 8:30-12.')).toEqual([]);
+    });
+
+    it('borrows the closing meridiem when the opening stays earlier ("1-5pm")', () => {
+      const violations = check('Monday 1-5pm.');
+      expect(violations).toHaveLength(1);
+      expect(violations[0].kind).toBe(FactKind.HOURS);
+      expect(violations[0].message).toContain('1:00 PM-5:00 PM');
+    });
+
+    it('flags wrong hours', () => {
+      const violations = check('Saturday 9am-2pm.');
+      expect(violations).toHaveLength(1);
+      expect(violations[0].kind).toBe(FactKind.HOURS);
+      expect(violations[0].expected).toBe('Saturday is open 8:30 AM-12:00 PM');
+    });
+
+    it('flags hours given for a closed day', () => {
+      const violations = check('Sunday 9am-5pm.');
+      expect(violations).toHaveLength(1);
+      expect(violations[0].kind).toBe(FactKind.DAY);
+    });
+
+    it('does not read price ranges as hours', () => {
+      expect(check('A filling on Monday costs 150-300 dollars.')).toEqual([]);
+    });
+  });
+
+  describe('days', () => {
+    it('flags offering a closed day', () => {
+      const violations = check('I can book you for Sunday at 10am.');
+      expect(violations).toHaveLength(1);
+      expect(violations[0].kind).toBe(FactKind.DAY);
+    });
+
+    it('flags saying an open day is closed', () => {
+      const violations = check("Sorry, we're closed on Saturday.");
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toContain('Saturday is open');
+    });
+  });
+
+  describe('prices', () => {
+    it('accepts prices within the service range', () => {
+      expect(check('A cleaning is $99 and a filling runs $150-$300.')).toEqual([]);
+      expect(check('The orthodontic consultation is free.')).toEqual([]);
+    });
+
+    it('flags a price outside the range', () => {
+      const violations = check('A filling costs $400.');
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({ kind: FactKind.PRICE, turnIndex: 0, expected: '$150-$300' });
+    });
+
+    it('flags amounts that match nothing in the knowledge base', () => {
+      expect(check('That will be $42.')).toHaveLength(1);
+    });
+  });
+
+  describe('services', () => {
+    it('flags denying an offered service', () => {
+      const violations = check("We don't offer fillings.");
+      expect(violations).toHaveLength(1);
+      expect(violations[0].kind).toBe(FactKind.SERVICE);
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import { KnowledgeBase, ServiceOffering, ScheduleEntry, Weekday, FactKind, FactViolation } from '../types/index.js';
+import { WEEKDAYS, formatAmount, formatPrice, formatTime } from '../utils/knowledgeBase.js';
+
+const DAY = '(monday|tuesday|wednesday|thursday|friday|saturday|sunday)s?';
+const DAY_RANGE = `${DAY}(?:\\s*(?:-|–|to|through|thru)\\s*${DAY})?`;
+// Needs a colon or am/pm to count as a time, so "150-300" is never read as hours
+const TIME = '(\\d{1,2})(?::(\\d{2}))?\\s*(?:([ap])m\\b)?';
+const AMOUNT = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d{1,2})?|\\d+(?:\\.\\d{1,2})?)';
+
+const HOURS_PATTERN = new RegExp(`\\b${DAY_RANGE}[:,]?\\s*(?:from\\s+)?${TIME}\\s*(?:-|–|to|until)\\s*${TIME}`, 'gi');
+const CLOSED_PATTERN = new RegExp(`\\bclosed\\s+(?:on\\s+|every\\s+|all\\s+day\\s+)?${DAY_RANGE}|\\b${DAY_RANGE}\\s+(?:we(?:'re|\\s+are)|is|are)\\s+closed\\b`, 'gi');
+const OPEN_PATTERN = new RegExp(`\\b(?:we(?:'re|\\s+are)\\s+)?open\\s+(?:on\\s+|every\\s+)?${DAY_RANGE}`, 'gi');
+const OFFER_PATTERN = new RegExp(`\\b(?:schedule|book)\\s+(?:you|it|that|this|an\\s+appointment)?\\s*(?:for|on)\\s+(?:this\\s+|next\\s+)?${DAY}`, 'gi');
+const MONEY_PATTERN = new RegExp(`\\$\\s?${AMOUNT}(?:\\s*(?:-|–|to)\\s*\\$?\\s?${AMOUNT})?|\\b${AMOUNT}(?:\\s*(?:-|–|to)\\s*${AMOUNT})?\\s*dollars\\b`, 'gi');
+const FREE_PATTERN = /(?<!feel\s)\bfree\b(?!\s+to\b)/gi;
+const DENIAL_PATTERN = /\b(?:don't|do not|doesn't|does not|no longer|can't|cannot)\s+(?:offer|provide|do|perform)\b/i;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const toNumber = (amount: string): number => Number(amount.replace(/,/g, ''));
+
+interface ServiceMention {
+  service: ServiceOffering;
+  index: number;
+  length: number;
+}
+
+/**
+ * Split a reply into clauses so a price is only attributed to a service in the same sentence or line
+ */
+function splitClauses(text: string): string[] {
+  return text
+    // "8 a.m." would otherwise end a sentence
+    .replace(/\b([ap])\.m\.?/gi, '$1m')
+    .split(/\n|(?<=[.!?])\s+/)
+    .map(clause => clause.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a matched time into minutes since midnight; undefined when it is not clearly a time
+ */
+function parseTime(hours?: string, minutes?: string, meridiem?: string): number | undefined {
+  if (hours === undefined || (minutes === undefined && !meridiem)) return undefined;
+  let h = Number(hours);
+  const m = minutes === undefined ? 0 : Number(minutes);
+  if (m > 59 || h > 23 || (meridiem && (h < 1 || h > 12))) return undefined;
+  if (meridiem) h = (h % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+  return h * 60 + m;
+}
+
+/**
+ * Parse an opening-closing pair. A bare opening time borrows the closing am/pm only while it still
+ * opens first ("9-5pm" is 9 AM-5 PM, "1-5pm" is 1 PM-5 PM), and a bare closing hour after a clear
+ * opening time rolls into the afternoon when needed ("8:30-12", "9:00-5")
+ */
+function parseHours(
+  h1: string, m1: string | undefined, ap1: string | undefined,
+  h2: string, m2: string | undefined, ap2: string | undefined
+): { open: number; close: number } | undefined {
+  let close = parseTime(h2, m2, ap2);
+  let open = parseTime(h1, m1, ap1);
+  if (!ap1 && ap2 && close !== undefined) {
+    const borrowed = parseTime(h1, m1, ap2);
+    open = borrowed !== undefined && borrowed < close ? borrowed : parseTime(h1, m1, 'a') ?? open;
+  }
+  if (open === undefined) return undefined;
+  if (close === undefined && !ap2) {
+    const bare = parseTime(h2, m2 ?? '00');
+    close = bare !== undefined && bare <= open && bare < 12 * 60 ? bare + 12 * 60 : bare;
+  }
+  return close === undefined ? undefined : { open, close };
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (minutes: number): string =>
+  formatTime(`${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`);
+
+/**
+ * Expand "Monday-Friday" to every day in between, wrapping past Sunday
+ */
+function expandDays(from: string, to?: string): Weekday[] {
+  const start = WEEKDAYS.indexOf(from.toLowerCase() as Weekday);
+  const end = to ? WEEKDAYS.indexOf(to.toLowerCase() as Weekday) : start;
+  const days: Weekday[] = [];
+  for (let i = start; ; i = (i + 1) % WEEKDAYS.length) {
+    days.push(WEEKDAYS[i]);
+    if (i === end) break;
+  }
+  return days;
+}
+
+const isClosed = (entry: ScheduleEntry): boolean => entry.closed || !entry.open || !entry.close;
+
+const describeDay = (entry: ScheduleEntry): string =>
+  isClosed(entry) ? 'closed' : `open ${formatTime(entry.open!)}-${formatTime(entry.close!)}`;
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * "Monday-Friday" for three or more consecutive days, otherwise the days listed
+ */
+function dayLabel(days: Weekday[]): string {
+  const indexes = days.map(day => WEEKDAYS.indexOf(day));
+  const consecutive = indexes.every((index, i) => i === 0 || index === (indexes[i - 1] + 1) % WEEKDAYS.length);
+  return days.length >= 3 && consecutive
+    ? `${capitalize(days[0])}-${capitalize(days[days.length - 1])}`
+    : days.map(capitalize).join(', ');
+}
+
+/**
+ * Describe what the schedule says for the given days, grouping days with the same hours
+ */
+function describeDays(days: Weekday[], schedule: ScheduleEntry[]): string {
+  const groups = new Map<string, Weekday[]>();
+  for (const day of days) {
+    const entry = schedule.find(e => e.day === day)!;
+    groups.set(describeDay(entry), [...(groups.get(describeDay(entry)) || []), day]);
+  }
+  return [...groups].map(([description, group]) => `${dayLabel(group)} ${group.length > 1 ? 'are' : 'is'} ${description}`).join('; ');
+}
+
+class FactChecker {
+  /**
+   * Check every agent reply against the knowledge base: prices, opening hours, open/closed days and services
+   */
+  check(
+    conversation: Array<{ role: 'user' | 'assistant'; content: string }>,
+    knowledgeBase: KnowledgeBase
+  ): FactViolation[] {
+    const violations: FactViolation[] = [];
+    const replies = conversation.filter(turn => turn.role === 'assistant');
+
+    replies.forEach((reply, turnIndex) => {
+      const found = [
+        ...this.checkPrices(reply.content, knowledgeBase),
+        ...this.checkSchedule(reply.content, knowledgeBase.weeklySchedule),
+        ...this.checkServices(reply.content, knowledgeBase.services),
+      ];
+      // One wrong fact can match several patterns ("open Sunday 9am-2pm"); report it once
+      const seen = new Set<string>();
+      for (const violation of found) {
+        if (seen.has(violation.message)) continue;
+        seen.add(violation.message);
+        violations.push({ turnIndex, ...violation });
+      }
+    });
+
+    return violations;
+  }
+
+  private checkPrices(text: string, knowledgeBase: KnowledgeBase): Array<Omit<FactViolation, 'turnIndex'>> {
+    const violations: Array<Omit<FactViolation, 'turnIndex'>> = [];
+    const knownAmounts = this.knownAmounts(knowledgeBase);
+
+    for (const clause of splitClauses(text)) {
+      const mentions = this.findServices(clause, knowledgeBase.services);
+      const quotes: Array<{ index: number; low: number; high: number; claim: string }> = [];
+      for (const match of clause.matchAll(MONEY_PATTERN)) {
+        const low = toNumber(match[1] ?? match[3]);
+        const high = toNumber(match[2] ?? match[4] ?? match[1] ?? match[3]);
+        quotes.push({ index: match.index ?? 0, low, high, claim: match[0].trim() });
+      }
+      for (const match of clause.matchAll(FREE_PATTERN)) {
+        quotes.push({ index: match.index ?? 0, low: 0, high: 0, claim: 'free' });
+      }
+
+      for (const quote of quotes) {
+        const quoted = quote.low === quote.high
+          ? (quote.low === 0 ? 'free' : formatAmount(quote.low))
+          : `${formatAmount(quote.low)}-${formatAmount(quote.high)}`;
+        // The service named closest before the price, else the first one after it ("$299 for whitening")
+        const mention = [...mentions].reverse().find(m => m.index < quote.index) ?? mentions.find(m => m.index > quote.index);
+
+        if (!mention) {
+          if (quote.claim !== 'free' && ![quote.low, quote.high].every(amount => knownAmounts.has(amount))) {
+            violations.push({
+              kind: FactKind.PRICE,
+              claim: quote.claim,
+              expected: 'a price from the knowledge base',
+              message: `Quoted ${quoted}, which matches no service or policy in the knowledge base`,
+            });
+          }
+          continue;
+        }
+
+        const { service } = mention;
+        const min = service.priceMin;
+        const max = service.priceMax ?? service.priceMin;
+        if (min === undefined || max === undefined || quote.low < min || quote.high > max) {
+          violations.push({
+            kind: FactKind.PRICE,
+            claim: quote.claim,
+            expected: formatPrice(service),
+            message: `Quoted ${service.name} at ${quoted}, expected ${formatPrice(service)}`,
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private checkSchedule(text: string, schedule: ScheduleEntry[]): Array<Omit<FactViolation, 'turnIndex'>> {
+    const violations: Array<Omit<FactViolation, 'turnIndex'>> = [];
+    if (schedule.length === 0) return violations;
+    const normalized = text.replace(/\b([ap])\.m\.?/gi, '$1m');
+    const entryFor = (day: Weekday) => schedule.find(entry => entry.day === day);
+
+    for (const match of normalized.matchAll(HOURS_PATTERN)) {
+      const [claim, fromDay, toDay, h1, m1, ap1, h2, m2, ap2] = match;
+      const hours = parseHours(h1, m1, ap1, h2, m2, ap2);
+      if (!hours) continue;
+      const { open, close } = hours;
+
+      const days = expandDays(fromDay, toDay);
+      const wrong = days.filter(day => {
+        const entry = entryFor(day);
+        return entry && (isClosed(entry) || toMinutes(entry.open!) !== open || toMinutes(entry.close!) !== close);
+      });
+      if (wrong.length > 0) {
+        violations.push({
+          kind: wrong.some(day => isClosed(entryFor(day)!)) ? FactKind.DAY : FactKind.HOURS,
+          claim: claim.trim(),
+          expected: describeDays(wrong, schedule),
+          message: `Said ${dayLabel(days)} hours are ${fromMinutes(open)}-${fromMinutes(close)}, but ${describeDays(wrong, schedule)}`,
+        });
+      }
+    }
+
+    for (const match of normalized.matchAll(CLOSED_PATTERN)) {
+      const [claim, fromDay, toDay, fromDayAfter, toDayAfter] = match;
+      const days = expandDays(fromDay ?? fromDayAfter, toDay ?? toDayAfter);
+      const open = days.filter(day => {
+        const entry = entryFor(day);
+        return entry && !isClosed(entry);
+      });
+      if (open.length > 0) {
+        violations.push({
+          kind: FactKind.DAY,
+          claim: claim.trim(),
+          expected: describeDays(open, schedule),
+          message: `Said closed on ${dayLabel(days)}, but ${describeDays(open, schedule)}`,
+        });
+      }
+    }
+
+    const openClaims = [...normalized.matchAll(OPEN_PATTERN)].map(m => ({ claim: m[0], days: expandDays(m[1], m[2]) }));
+    const offers = [...normalized.matchAll(OFFER_PATTERN)].map(m => ({ claim: m[0], days: expandDays(m[1]) }));
+    for (const { claim, days } of [...openClaims, ...offers]) {
+      const closed = days.filter(day => {
+        const entry = entryFor(day);
+        return entry && isClosed(entry);
+      });
+      if (closed.length > 0) {
+        violations.push({
+          kind: FactKind.DAY,
+          claim: claim.trim(),
+          expected: describeDays(closed, schedule),
+          message: `Offered ${dayLabel(closed)}, but the business is closed on ${dayLabel(closed)}`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  private checkServices(text: string, services: ServiceOffering[]): Array<Omit<FactViolation, 'turnIndex'>> {
+    const violations: Array<Omit<FactViolation, 'turnIndex'>> = [];
+
+    for (const clause of splitClauses(text)) {
+      const denial = DENIAL_PATTERN.exec(clause);
+      if (!denial) continue;
+      for (const { service } of this.findServices(clause, services).filter(m => m.index > denial.index)) {
+        violations.push({
+          kind: FactKind.SERVICE,
+          claim: clause,
+          expected: `${service.name} is offered`,
+          message: `Said ${service.name} is not offered, but it is in the knowledge base`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Locate service names, aliases and unambiguous short forms ("whitening" for "Teeth Whitening") in a clause
+   */
+  private findServices(clause: string, services: ServiceOffering[]): ServiceMention[] {
+    const lastWord = (name: string) => name.trim().split(/\s+/).pop()!.toLowerCase();
+    const shortFormCounts = new Map<string, number>();
+    for (const service of services) {
+      if (service.name.trim().includes(' ')) {
+        const word = lastWord(service.name);
+        shortFormCounts.set(word, (shortFormCounts.get(word) || 0) + 1);
+      }
+    }
+
+    const mentions: ServiceMention[] = [];
+    for (const service of services) {
+      const names = [service.name, ...(service.aliases || [])];
+      const shortForm = lastWord(service.name);
+      if (service.name.trim().includes(' ') && shortForm.length >= 4 && shortFormCounts.get(shortForm) === 1) {
+        names.push(shortForm.replace(/(es|s)$/, ''));
+      }
+
+      // Longest names first, since the regex takes the first alternative that matches
+      const alternatives = names.map(n => escapeRegExp(n.trim())).sort((a, b) => b.length - a.length);
+      const pattern = new RegExp(`\\b(?:${alternatives.join('|')})(?:s|es)?\\b`, 'gi');
+      for (const match of clause.matchAll(pattern)) {
+        mentions.push({ service, index: match.index ?? 0, length: match[0].length });
+      }
+    }
+
+    // Longest match wins, so "flu vaccine" is the flu shot rather than the COVID-19 vaccine
+    const kept: ServiceMention[] = [];
+    for (const mention of mentions.sort((a, b) => b.length - a.length)) {
+      const overlaps = kept.some(k => mention.index < k.index + k.length && k.index < mention.index + mention.length);
+      if (!overlaps) kept.push(mention);
+    }
+    return kept.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Every amount the knowledge base states anywhere, for prices not tied to a named service
+   */
+  private knownAmounts(knowledgeBase: KnowledgeBase): Set<number> {
+    const amounts = new Set<number>();
+    for (const service of knowledgeBase.services) {
+      if (service.priceMin !== undefined) amounts.add(service.priceMin);
+      if (service.priceMax !== undefined) amounts.add(service.priceMax);
+    }
+    const text = [
+      ...knowledgeBase.policies.map(p => p.description),
+      ...knowledgeBase.faqs.map(f => f.answer),
+    ].join('\n');
+    for (const match of text.matchAll(/\d[\d,]*(?:\.\d{1,2})?/g)) {
+      amounts.add(toNumber(match[0]));
+    }
+    return amounts;
+  }
+}
+
+export const factChecker = new FactChecker();
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { functionEvaluatorRegistry, findInvalidDates, findService } from './FunctionEvaluators.js';
+import {
+  BusinessContext,
+  CriteriaType,
+  EvaluationContext,
+  EvaluatorType,
+  SuccessCriteria,
+  TestCase,
+} from '../types/index.js';
+import { DENTAL_KNOWLEDGE_BASE as knowledgeBase } from '../test/fixtures.js';
+
+const context = (turns: string[], extra: Partial<EvaluationContext> = {}): EvaluationContext => ({
+  testCase: {} as TestCase,
+  conversation: turns.map((content, i) => ({ role: i % 2 === 0 ? 'user' : 'assistant', content })),
+  businessContext: { knowledgeBase } as BusinessContext,
+  ...extra,
+});
+
+const evaluate = (name: string, ctx: EvaluationContext, params: Record<string, unknown> = {}) =>
+  functionEvaluatorRegistry.get(name)!.evaluate(ctx, params);
+
+const criterion = (functionName: string, params?: Record<string, unknown>): SuccessCriteria => ({
+  id: functionName,
+  name: functionName,
+  description: '',
+  type: CriteriaType.CUSTOM_LLM,
+  evaluator: { type: EvaluatorType.FUNCTION, config: { functionName, params } },
+  weight: 1,
+  required: false,
+});
+
+describe('findInvalidDates', () => {
+  it('finds impossible dates in any order', () => {
+    expect(findInvalidDates('Can I come on February 30th?')).toEqual(['February 30th']);
+    expect(findInvalidDates('How about the 31st of April')).toEqual(['31st of April']);
+    expect(findInvalidDates('Book me for 30/02')).toEqual(['30/02']);
+  });
+
+  it('accepts real dates, including leap days and either numeric order', () => {
+    expect(findInvalidDates('February 29, March 31 or 12/25 or 25/12')).toEqual([]);
+  });
+});
+
+describe('findService', () => {
+  it('matches names and aliases case-insensitively', () => {
+    expect(findService(knowledgeBase.services, 'Filling')?.name).toBe('Dental Filling');
+    expect(findService(knowledgeBase.services, ' routine dental cleaning ')?.name).toBe('Routine Dental Cleaning');
+    expect(findService(knowledgeBase.services, 'whitening')).toBeUndefined();
+  });
+});
+
+describe('built-in function evaluators', () => {
+  it('rejectsInvalidDate fails when the agent books an impossible date', async () => {
+    const booked = await evaluate('rejectsInvalidDate', context(['February 30 please', "Great, you're booked for February 30."]));
+    expect(booked.passed).toBe(false);
+
+    const rejected = await evaluate('rejectsInvalidDate', context(['February 30 please', "February 30 isn't a valid date, did you mean March 1?"]));
+    expect(rejected.passed).toBe(true);
+  });
+
+  it('mentionsPriceFor gives half credit for the service without its price', async () => {
+    const quoted = await evaluate('mentionsPriceFor', context(['How much?', 'A filling runs $150 to $300.']), { service: 'filling' });
+    expect(quoted).toMatchObject({ passed: true, score: 1 });
+
+    const unpriced = await evaluate('mentionsPriceFor', context(['How much?', 'A filling depends on the tooth.']), { service: 'filling' });
+    expect(unpriced).toMatchObject({ passed: false, score: 0.5 });
+
+    const free = await evaluate('mentionsPriceFor', context(['Cost?', 'The orthodontic consultation is free.']), { service: 'Orthodontic Consultation' });
+    expect(free.passed).toBe(true);
+  });
+
+  it('mentionsPriceFor reads prices written with thousands separators', async () => {
+    const rootCanal = { ...knowledgeBase, services: [{ name: 'Root Canal', priceMin: 800, priceMax: 1200 }] };
+    const ctx = (reply: string) => context(['How much?', reply], { businessContext: { knowledgeBase: rootCanal } });
+
+    expect((await evaluate('mentionsPriceFor', ctx('A root canal is $800 to $1,200.'), { service: 'Root Canal' })).passed).toBe(true);
+    expect((await evaluate('mentionsPriceFor', ctx('A root canal is 800 to 1,200 dollars.'), { service: 'Root Canal' })).passed).toBe(true);
+    expect((await evaluate('mentionsPriceFor', ctx('A root canal is $800 to $1,500.'), { service: 'Root Canal' })).passed).toBe(false);
+  });
+
+  it('collectedEmail requires the read-back when asked to', async () => {
+    const turns = ["What's next?", 'What is your email?', 'jane@example.com', 'Thanks!'];
+    expect((await evaluate('collectedEmail', context(turns))).passed).toBe(true);
+    expect(await evaluate('collectedEmail', context(turns), { requireConfirmation: true })).toMatchObject({ passed: false, score: 0.5 });
+
+    const confirmed = [...turns.slice(0, 3), 'I have jane@example.com, is that right?'];
+    expect((await evaluate('collectedEmail', context(confirmed), { requireConfirmation: true })).passed).toBe(true);
+  });
+
+  it('maxLatencyMs scores by the worst budget overrun', async () => {
+    const fast = await evaluate('maxLatencyMs', context(['Hi', 'Hello'], { latencies: [400, 500, 600] }), { max: 1000 });
+    expect(fast).toMatchObject({ passed: true, score: 1 });
+
+    const slow = await evaluate('maxLatencyMs', context(['Hi', 'Hello'], { latencies: [400, 2000] }), { max: 1000 });
+    expect(slow).toMatchObject({ passed: false, score: 0.5 });
+
+    expect((await evaluate('maxLatencyMs', context(['Hi', 'Hello']), { max: 1000 })).passed).toBe(false);
+  });
+});
+
+describe('functionEvaluatorRegistry', () => {
+  it('reports unknown evaluators and unusable params', () => {
+    expect(functionEvaluatorRegistry.validateCriteria([
+      criterion('mentionsPriceFor', { service: 'filling' }),
+      criterion('maxLatencyMs', { p95: 800 }),
+    ])).toEqual([]);
+
+    const errors = functionEvaluatorRegistry.validateCriteria([
+      criterion('noSuchEvaluator'),
+      criterion('mentionsPriceFor'),
+      criterion('maxLatencyMs', { p95: -1 }),
+    ]);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain('unknown function evaluator "noSuchEvaluator"');
+    expect(errors[1]).toContain('params.service');
+    expect(errors[2]).toContain('params.p95 must be a positive number');
+  });
+
+  it('refuses to replace an evaluator unless told to', () => {
+    const definition = { description: 'test', evaluate: () => ({ passed: true, reasoning: '' }) };
+    expect(() => functionEvaluatorRegistry.register('collectedEmail', definition)).toThrow(/already registered/);
+
+    functionEvaluatorRegistry.register('alwaysPasses', definition);
+    expect(functionEvaluatorRegistry.list().map(e => e.name)).toContain('alwaysPasses');
+  });
+});
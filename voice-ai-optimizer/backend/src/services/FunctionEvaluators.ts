@@ -0,0 +1,398 @@
+import {
+  EvaluationContext,
+  ServiceOffering,
+  SuccessCriteria,
+  EvaluatorType,
+  FactKind,
+  ComplianceSeverity,
+  SlotStatus,
+} from '../types/index.js';
+import { factChecker } from './FactChecker.js';
+import { complianceChecker } from './ComplianceChecker.js';
+import { slotTracker, findEmail } from './SlotTracker.js';
+import {
+  estimateSpokenSeconds,
+  analyzeVoiceConversation,
+  DEFAULT_WORDS_PER_MINUTE,
+  MAX_COMFORTABLE_SENTENCE_WORDS,
+} from '../utils/voiceMetrics.js';
+import { latencyStats } from '../utils/statistics.js';
+
+export interface FunctionEvaluatorResult {
+  passed: boolean;
+  score?: number; // Defaults to 1 when passed, 0 otherwise
+  reasoning: string;
+}
+
+export interface FunctionEvaluatorDefinition {
+  description: string;
+  evaluate: (
+    context: EvaluationContext,
+    params: Record<string, unknown>
+  ) => FunctionEvaluatorResult | Promise<FunctionEvaluatorResult>;
+  /** Return an error message when params are unusable, checked at suite save time */
+  validateParams?: (params: Record<string, unknown>) => string | null;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+const MONTH_NAMES = 'january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec';
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]; // Feb 29 allowed for leap years
+
+const REJECTION_CUES = /\b(not a valid|isn't a valid|is not a valid|invalid|doesn't exist|does not exist|only has (28|29|30)|no such date)\b/i;
+const BOOKING_CUES = /\b((you're|you are) (all )?(booked|scheduled)|(booked|scheduled) you|appointment is (confirmed|booked|scheduled))\b/i;
+
+const LATENCY_BUDGETS = ['p50', 'p95', 'max'] as const;
+const FACT_VIOLATION_PENALTY = 0.25;
+const UNCONFIRMED_SLOT_CREDIT = 0.5;
+
+const agentTurns = (context: EvaluationContext) =>
+  context.conversation.filter(turn => turn.role === 'assistant').map(turn => turn.content);
+const userTurns = (context: EvaluationContext) =>
+  context.conversation.filter(turn => turn.role === 'user').map(turn => turn.content);
+
+/**
+ * Find calendar-impossible dates such as "February 30" or "30/02"
+ */
+export function findInvalidDates(text: string): string[] {
+  const invalid: string[] = [];
+  const isInvalid = (month: number, day: number) =>
+    month >= 1 && month <= 12 && day > DAYS_IN_MONTH[month - 1] && day <= 31;
+
+  const monthFirst = new RegExp(`\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(st|nd|rd|th)?\\b`, 'gi');
+  const dayFirst = new RegExp(`\\b(\\d{1,2})(st|nd|rd|th)?\\s+(of\\s+)?(${MONTH_NAMES})\\b`, 'gi');
+  const numeric = /\b(\d{1,2})[/-](\d{1,2})\b/g;
+
+  for (const match of text.matchAll(monthFirst)) {
+    if (isInvalid(MONTHS[match[1].slice(0, 3).toLowerCase()], Number(match[2]))) invalid.push(match[0]);
+  }
+  for (const match of text.matchAll(dayFirst)) {
+    if (isInvalid(MONTHS[match[4].slice(0, 3).toLowerCase()], Number(match[1]))) invalid.push(match[0]);
+  }
+  for (const match of text.matchAll(numeric)) {
+    const [a, b] = [Number(match[1]), Number(match[2])];
+    // Ambiguous order: invalid only if neither dd/mm nor mm/dd is a real date
+    const asDayMonth = b >= 1 && b <= 12 && a <= DAYS_IN_MONTH[b - 1];
+    const asMonthDay = a >= 1 && a <= 12 && b <= DAYS_IN_MONTH[a - 1];
+    if (!asDayMonth && !asMonthDay && (isInvalid(b, a) || isInvalid(a, b))) invalid.push(match[0]);
+  }
+
+  return invalid;
+}
+
+/**
+ * Find a knowledge base service by name or alias
+ */
+export function findService(services: ServiceOffering[], name: string): ServiceOffering | undefined {
+  const target = name.trim().toLowerCase();
+  return services.find(s =>
+    s.name.toLowerCase() === target || (s.aliases || []).some(alias => alias.toLowerCase() === target)
+  );
+}
+
+const BUILT_IN_EVALUATORS: Record<string, FunctionEvaluatorDefinition> = {
+  collectedEmail: {
+    description: 'Agent asked for an email address and, with requireConfirmation, read back the one the user gave',
+    evaluate: (context, params) => {
+      const asked = agentTurns(context).some(text => /\be-?mail\b/i.test(text));
+      const supplied = userTurns(context).map(findEmail).find(Boolean);
+      if (!asked) {
+        return { passed: false, score: 0, reasoning: 'Agent never asked for an email address' };
+      }
+      if (params.requireConfirmation && supplied) {
+        const confirmed = agentTurns(context).some(text => findEmail(text) === supplied);
+        return confirmed
+          ? { passed: true, reasoning: `Agent asked for and confirmed ${supplied}` }
+          : { passed: false, score: 0.5, reasoning: `Agent asked for an email but never read back ${supplied}` };
+      }
+      return { passed: true, reasoning: 'Agent asked for an email address' };
+    },
+  },
+
+  rejectsInvalidDate: {
+    description: 'Agent flags calendar-impossible dates instead of booking them',
+    evaluate: (context) => {
+      const conversation = context.conversation;
+      const checked: string[] = [];
+
+      for (let i = 0; i < conversation.length; i++) {
+        if (conversation[i].role !== 'user') continue;
+        const invalid = findInvalidDates(conversation[i].content);
+        if (invalid.length === 0) continue;
+
+        const reply = conversation[i + 1]?.role === 'assistant' ? conversation[i + 1].content : '';
+        if (BOOKING_CUES.test(reply)) {
+          return { passed: false, reasoning: `Agent booked the invalid date "${invalid[0]}"` };
+        }
+        if (!REJECTION_CUES.test(reply)) {
+          return { passed: false, reasoning: `Agent did not point out that "${invalid[0]}" is not a valid date` };
+        }
+        checked.push(invalid[0]);
+      }
+
+      return checked.length > 0
+        ? { passed: true, reasoning: `Agent rejected invalid date(s): ${checked.join(', ')}` }
+        : { passed: true, reasoning: 'No invalid dates in the conversation' };
+    },
+  },
+
+  mentionsPriceFor: {
+    description: 'Agent mentions the knowledge base price for params.service',
+    validateParams: (params) =>
+      typeof params.service === 'string' && params.service.trim() ? null : 'params.service must be a service name',
+    evaluate: (context, params) => {
+      const services = context.businessContext.knowledgeBase?.services || [];
+      const service = findService(services, String(params.service));
+      if (!service) {
+        return { passed: false, reasoning: `Service "${params.service}" is not in the knowledge base` };
+      }
+      if (service.priceMin === undefined) {
+        return { passed: false, reasoning: `${service.name} has no price in the knowledge base` };
+      }
+
+      // Drop thousands separators so "$1,200" matches a price of 1200
+      const text = agentTurns(context).join('\n').toLowerCase().replace(/(\d),(?=\d{3}\b)/g, '$1');
+      const names = [service.name, ...(service.aliases || [])].map(n => n.toLowerCase());
+      const mentionsService = names.some(n => text.includes(n));
+      const max = service.priceMax ?? service.priceMin;
+      const expected = max === 0 ? ['free'] : [...new Set([service.priceMin, max])].map(String);
+      const mentionsPrice = expected.every(amount =>
+        amount === 'free' ? /\bfree\b/.test(text) : new RegExp(`\\$?\\b${amount}\\b`).test(text)
+      );
+
+      return {
+        passed: mentionsService && mentionsPrice,
+        score: (mentionsService ? 0.5 : 0) + (mentionsPrice ? 0.5 : 0),
+        reasoning: mentionsService && mentionsPrice
+          ? `Agent quoted ${service.name} correctly`
+          : `Expected ${service.name} with price ${expected.join('-')}: ${mentionsService ? 'service mentioned' : 'service not mentioned'}, ${mentionsPrice ? 'price mentioned' : 'price missing'}`,
+      };
+    },
+  },
+
+  maxSpokenSeconds: {
+    description: 'Every agent reply can be spoken within params.seconds at the agent voice speed',
+    validateParams: (params) =>
+      typeof params.seconds === 'number' && params.seconds > 0 ? null : 'params.seconds must be a positive number',
+    evaluate: (context, params) => {
+      const limit = Number(params.seconds);
+      const wordsPerMinute = typeof params.wordsPerMinute === 'number' ? params.wordsPerMinute : DEFAULT_WORDS_PER_MINUTE;
+      const durations = agentTurns(context).map(text =>
+        estimateSpokenSeconds(text, context.voiceSettings?.speed, wordsPerMinute)
+      );
+      const longest = Math.max(0, ...durations);
+
+      return {
+        passed: longest <= limit,
+        score: longest <= limit ? 1 : Math.max(0, limit / longest),
+        reasoning: `Longest reply is ~${longest.toFixed(1)}s spoken (limit ${limit}s)`,
+      };
+    },
+  },
+
+  voiceFriendly: {
+    description: 'Agent replies sound right over TTS: no markdown, bullets, emoji or URLs, short sentences, readable numbers',
+    validateParams: (params) =>
+      params.minScore === undefined || (typeof params.minScore === 'number' && params.minScore >= 0 && params.minScore <= 1)
+        ? null
+        : 'params.minScore must be a number between 0 and 1',
+    evaluate: (context, params) => {
+      const minScore = typeof params.minScore === 'number' ? params.minScore : 0.8;
+      const maxSentenceWords = typeof params.maxSentenceWords === 'number' ? params.maxSentenceWords : MAX_COMFORTABLE_SENTENCE_WORDS;
+      const turns = analyzeVoiceConversation(context.conversation, { speed: context.voiceSettings?.speed });
+      if (turns.length === 0) {
+        return { passed: false, score: 0, reasoning: 'Agent never replied' };
+      }
+
+      const worst = turns.reduce((min, t) => (t.score < min.score ? t : min));
+      const tooLong = turns.find(t => t.maxSentenceWords > maxSentenceWords);
+      const passed = worst.score >= minScore && !tooLong;
+      return {
+        passed,
+        score: worst.score,
+        reasoning: passed
+          ? `All ${turns.length} replies are speech-friendly`
+          : `Reply ${(tooLong ?? worst).turnIndex + 1}: ${(tooLong ?? worst).issues.join('; ') || `sentence over ${maxSentenceWords} words`}`,
+      };
+    },
+  },
+
+  factsMatchKnowledgeBase: {
+    description: 'Prices, opening hours, open days and services the agent states match the knowledge base; params.kinds limits the checks',
+    validateParams: (params) => {
+      if (params.kinds === undefined) return null;
+      const kinds = Object.values(FactKind) as string[];
+      return Array.isArray(params.kinds) && params.kinds.length > 0 && params.kinds.every(k => kinds.includes(k))
+        ? null
+        : `params.kinds must be a non-empty list of: ${kinds.join(', ')}`;
+    },
+    evaluate: (context, params) => {
+      const knowledgeBase = context.businessContext.knowledgeBase;
+      if (!knowledgeBase) {
+        return { passed: false, score: 0, reasoning: 'No knowledge base to check facts against' };
+      }
+
+      const kinds = Array.isArray(params.kinds) ? params.kinds : Object.values(FactKind);
+      const violations = factChecker.check(context.conversation, knowledgeBase).filter(v => kinds.includes(v.kind));
+      return {
+        passed: violations.length === 0,
+        score: Math.max(0, 1 - violations.length * FACT_VIOLATION_PENALTY),
+        reasoning: violations.length === 0
+          ? 'Every price, hour, day and service stated matches the knowledge base'
+          : violations.map(v => `Reply ${v.turnIndex + 1}: ${v.message}`).join('; '),
+      };
+    },
+  },
+
+  meetsCompliance: {
+    description: "No compliance violations for the agent's requirements (e.g. HIPAA); params.requirements limits them, params.minScore relaxes the bar",
+    validateParams: (params) => {
+      if (params.requirements !== undefined && !(Array.isArray(params.requirements)
+        && params.requirements.every(r => typeof r === 'string' && complianceChecker.has(r)))) {
+        return `params.requirements must list requirements with a rule set: ${complianceChecker.list().map(r => r.requirement).join(', ')}`;
+      }
+      if (params.minScore !== undefined && !(typeof params.minScore === 'number' && params.minScore >= 0 && params.minScore <= 1)) {
+        return 'params.minScore must be a number between 0 and 1';
+      }
+      return null;
+    },
+    evaluate: (context, params) => {
+      const report = complianceChecker.check(context.conversation, context.businessContext);
+      const wanted = Array.isArray(params.requirements) ? params.requirements.map(r => String(r).toUpperCase()) : undefined;
+      const results = (report?.requirements || []).filter(r => !wanted || wanted.includes(r.requirement));
+      if (results.length === 0) {
+        return { passed: false, score: 0, reasoning: 'Agent has no compliance requirement to check' };
+      }
+
+      const minScore = typeof params.minScore === 'number' ? params.minScore : 1;
+      const score = results.reduce((sum, r) => sum + r.score, 0) / results.length;
+      const findings = results.flatMap(r => r.findings);
+      // A critical finding fails the criterion whatever the score
+      const passed = score >= minScore && !findings.some(f => f.severity === ComplianceSeverity.CRITICAL);
+      return {
+        passed,
+        score,
+        reasoning: findings.length === 0
+          ? `No violations of ${results.map(r => r.requirement).join(', ')}`
+          : findings.map(f => `${f.requirement} ${f.ruleId}${f.turnIndex !== undefined ? ` (reply ${f.turnIndex + 1})` : ''}: ${f.message}`).join('; '),
+      };
+    },
+  },
+
+  maxLatencyMs: {
+    description: 'Agent response time stays within budget: params.p50, params.p95 and/or params.max in milliseconds',
+    validateParams: (params) => {
+      const budgets = LATENCY_BUDGETS.filter(key => params[key] !== undefined);
+      if (budgets.length === 0) return 'at least one of params.p50, params.p95 or params.max is required';
+      const invalid = budgets.find(key => typeof params[key] !== 'number' || (params[key] as number) <= 0);
+      return invalid ? `params.${invalid} must be a positive number` : null;
+    },
+    evaluate: (context, params) => {
+      const latencies = context.latencies || [];
+      if (latencies.length === 0) {
+        return { passed: false, score: 0, reasoning: 'No response times were recorded' };
+      }
+
+      const stats = latencyStats(latencies);
+      const overBudget = LATENCY_BUDGETS
+        .filter(key => typeof params[key] === 'number' && stats[key] > (params[key] as number))
+        .map(key => `${key} ${stats[key]}ms > ${params[key]}ms`);
+      // Score by the worst budget overrun so a slightly slow agent still gets partial credit
+      const score = Math.min(
+        1,
+        ...LATENCY_BUDGETS.filter(key => typeof params[key] === 'number').map(key => (params[key] as number) / stats[key])
+      );
+
+      return {
+        passed: overBudget.length === 0,
+        score: overBudget.length === 0 ? 1 : Math.max(0, score),
+        reasoning: overBudget.length === 0
+          ? `Response times within budget (p50 ${stats.p50}ms, p95 ${stats.p95}ms, max ${stats.max}ms)`
+          : `Over latency budget: ${overBudget.join(', ')}`,
+      };
+    },
+  },
+
+  collectsSlots: {
+    description: "Agent asked for each slot (params.slots, or the suite's dataToCollect) and read back what the caller gave; params.requireConfirmation: false skips the read-back",
+    validateParams: (params) => {
+      if (params.slots !== undefined && !(Array.isArray(params.slots) && params.slots.length > 0
+        && params.slots.every(s => typeof s === 'string' && s.trim()))) {
+        return 'params.slots must be a non-empty list of slot names';
+      }
+      if (params.requireConfirmation !== undefined && typeof params.requireConfirmation !== 'boolean') {
+        return 'params.requireConfirmation must be a boolean';
+      }
+      return null;
+    },
+    evaluate: (context, params) => {
+      const slots = Array.isArray(params.slots) ? params.slots.map(String) : context.dataToCollect || [];
+      if (slots.length === 0) {
+        return { passed: false, score: 0, reasoning: "No slots to check: set params.slots or the suite's dataToCollect" };
+      }
+
+      const requireConfirmation = params.requireConfirmation !== false;
+      const results = slotTracker.track(context.conversation, slots, context.businessContext.knowledgeBase);
+      // A slot the agent asked for but the caller never gave isn't the agent's fault
+      const credit = results.map((r): number =>
+        r.status === SlotStatus.MISSING ? 0
+          : r.status === SlotStatus.UNCONFIRMED && requireConfirmation ? UNCONFIRMED_SLOT_CREDIT
+            : 1
+      );
+      const problems = results.filter((_, i) => credit[i] < 1);
+
+      return {
+        passed: problems.length === 0,
+        score: credit.reduce((sum, c) => sum + c, 0) / credit.length,
+        reasoning: (problems.length === 0 ? results : problems).map(r => slotTracker.describe(r)).join('; '),
+      };
+    },
+  },
+};
+
+class FunctionEvaluatorRegistry {
+  private evaluators = new Map<string, FunctionEvaluatorDefinition>(Object.entries(BUILT_IN_EVALUATORS));
+
+  /**
+   * Register a named evaluator; names are unique unless override is set
+   */
+  register(name: string, definition: FunctionEvaluatorDefinition, options: { override?: boolean } = {}): void {
+    if (this.evaluators.has(name) && !options.override) {
+      throw new Error(`Function evaluator "${name}" is already registered`);
+    }
+    this.evaluators.set(name, definition);
+    console.log(`🧩 Registered function evaluator: ${name}`);
+  }
+
+  get(name: string): FunctionEvaluatorDefinition | undefined {
+    return this.evaluators.get(name);
+  }
+
+  list(): Array<{ name: string; description: string }> {
+    return [...this.evaluators.entries()].map(([name, def]) => ({ name, description: def.description }));
+  }
+
+  /**
+   * Check that every FUNCTION criterion references a registered evaluator with usable params
+   */
+  validateCriteria(criteria: SuccessCriteria[]): string[] {
+    const errors: string[] = [];
+    for (const criterion of criteria) {
+      if (criterion.evaluator.type !== EvaluatorType.FUNCTION) continue;
+      const { functionName, params = {} } = criterion.evaluator.config;
+      const definition = this.evaluators.get(functionName);
+      if (!definition) {
+        errors.push(`Criterion "${criterion.name}" references unknown function evaluator "${functionName}"`);
+        continue;
+      }
+      const paramError = definition.validateParams?.(params);
+      if (paramError) {
+        errors.push(`Criterion "${criterion.name}" (${functionName}): ${paramError}`);
+      }
+    }
+    return errors;
+  }
+}
+
+export const functionEvaluatorRegistry = new FunctionEvaluatorRegistry();
@@ -1,7 +1,10 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { config } from '../config/index.js';
-import { AgentConfig, VoiceSettings } from '../types/index.js';
+import { AgentConfig, VoiceSettings, AgentAction, AgentActionType } from '../types/index.js';
 import { OptimizedPromptModel } from '../models/index.js';
+import { findEmail } from './SlotTracker.js';
+import { formatTime } from '../utils/knowledgeBase.js';
+import { spokenBefore } from '../utils/voiceMetrics.js';
 
 // Store current prompt separately from cache for mock responses
 let currentMockPrompt: string = '';
@@ -13,6 +16,47 @@ const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 // Rate limiting state
 let rateLimitedUntil: number | null = null;
 
+// Modeled mock response time: longer prompts are slower, like a real LLM-backed agent. It is reported, not waited out
+const MOCK_BASE_LATENCY_MS = 120;
+const MOCK_LATENCY_JITTER_MS = 40;
+const MOCK_PROMPT_CHARS_PER_MS = 20;
+
+const MOCK_WEEKDAY = /\b(monday|tuesday|wednesday|thursday|friday|saturday)\b/;
+const MOCK_TIME = /\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\b/;
+const MOCK_PHONE = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/;
+const MOCK_TRANSFER_REQUEST = /\b(human|real person|representative|operator|manager|speak to someone)\b/;
+
+/**
+ * Thrown by simulateConversation when its shouldStop check asks it to stop
+ */
+export class RunCancelledError extends Error {
+  constructor() {
+    super('Run cancelled');
+    this.name = 'RunCancelledError';
+  }
+}
+
+/**
+ * Thrown while the HighLevel API is rate limiting us; retrying before retryAfter seconds won't help
+ */
+export class RateLimitError extends Error {
+  constructor(public retryAfter: number) {
+    super(`Rate limited. Please wait ${retryAfter} seconds.`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface SimulationOptions {
+  onTurn?: (turn: { turnIndex: number; userMessage: string; agentResponse: string; latencyMs: number }) => void;
+  shouldStop?: () => Promise<boolean>; // Checked before each turn
+  speed?: number; // Agent speaking rate, for how much of a reply is heard before a barge-in
+}
+
+export interface SimulatedUserTurn {
+  content: string;
+  timing?: number; // Barges in this many ms after the agent started its previous reply
+}
+
 export interface HighLevelAgent {
   id: string;
   name: string;
@@ -32,6 +76,8 @@ export interface ChatMessage {
 export interface ChatResponse {
   message: string;
   conversationId: string;
+  actions?: Array<Omit<AgentAction, 'turnIndex'>>; // Tool calls the agent made while producing this reply
+  simulatedLatencyMs?: number; // Mock only: the modeled response time, used in place of the measured one
 }
 
 class HighLevelClient {
@@ -70,8 +116,7 @@ class HighLevelClient {
 
   private checkRateLimit(): void {
     if (rateLimitedUntil && Date.now() < rateLimitedUntil) {
-      const waitTime = Math.ceil((rateLimitedUntil - Date.now()) / 1000);
-      throw new Error(`Rate limited. Please wait ${waitTime} seconds.`);
+      throw new RateLimitError(Math.ceil((rateLimitedUntil - Date.now()) / 1000));
     }
     rateLimitedUntil = null;
   }
@@ -85,6 +130,9 @@ class HighLevelClient {
         return await operation();
       } catch (error) {
         lastError = error as Error;
+        if (error instanceof RateLimitError) {
+          throw error;
+        }
         if (axios.isAxiosError(error)) {
           if (error.response?.status && error.response.status >= 400 && error.response.status < 500 && error.response.status !== 429) {
             throw error;
@@ -96,6 +144,10 @@ class HighLevelClient {
         }
       }
     }
+    // Still throttled after the last attempt: report it as a rate limit so the run can be resumed later
+    if (axios.isAxiosError(lastError) && lastError.response?.status === 429) {
+      throw new RateLimitError(Math.max(1, Math.ceil(((rateLimitedUntil ?? Date.now()) - Date.now()) / 1000)));
+    }
     throw lastError;
   }
 
@@ -149,7 +201,7 @@ class HighLevelClient {
 
   async chat(agentId: string, message: string, conversationId?: string): Promise<ChatResponse> {
     if (this.useMock) {
-      return this.getMockChatResponse(agentId, message);
+      return { ...this.getMockChatResponse(agentId, message), simulatedLatencyMs: this.getMockLatency() };
     }
 
     return this.withRetry(async () => {
@@ -161,18 +213,40 @@ class HighLevelClient {
     });
   }
 
-  async simulateConversation(agentId: string, messages: string[]): Promise<{ turns: ChatMessage[]; conversationId: string }> {
+  /**
+   * Run a scripted conversation; latencies[i] is the response time (ms) of the i-th agent reply.
+   * A user turn with timing cuts the previous reply off, so the transcript keeps only what was said before it
+   */
+  async simulateConversation(
+    agentId: string,
+    messages: SimulatedUserTurn[],
+    options: SimulationOptions = {}
+  ): Promise<{ turns: ChatMessage[]; conversationId: string; latencies: number[]; actions: AgentAction[] }> {
     const turns: ChatMessage[] = [];
+    const latencies: number[] = [];
+    const actions: AgentAction[] = [];
     let conversationId: string | undefined;
 
-    for (const message of messages) {
+    for (const [turnIndex, { content: message, timing }] of messages.entries()) {
+      if (await options.shouldStop?.()) {
+        throw new RunCancelledError();
+      }
+      const previous = turns[turns.length - 1];
+      if (timing !== undefined && previous?.role === 'assistant') {
+        previous.content = spokenBefore(previous.content, timing, options.speed);
+      }
       turns.push({ role: 'user', content: message });
+      const startedAt = performance.now();
       const response = await this.chat(agentId, message, conversationId);
+      const latencyMs = response.simulatedLatencyMs ?? Math.round(performance.now() - startedAt);
+      latencies.push(latencyMs);
       conversationId = response.conversationId;
       turns.push({ role: 'assistant', content: response.message });
+      actions.push(...(response.actions || []).map(action => ({ ...action, turnIndex })));
+      options.onTurn?.({ turnIndex, userMessage: message, agentResponse: response.message, latencyMs });
     }
 
-    return { turns, conversationId: conversationId! };
+    return { turns, conversationId: conversationId!, latencies, actions };
   }
 
   // ============================================
@@ -245,13 +319,49 @@ Be helpful.`;
     return score;
   }
 
+  private getMockLatency(): number {
+    return Math.round(
+      MOCK_BASE_LATENCY_MS + currentMockPrompt.length / MOCK_PROMPT_CHARS_PER_MS + Math.random() * MOCK_LATENCY_JITTER_MS
+    );
+  }
+
+  /**
+   * Parse "3pm" / "10:30 am" into 24h "HH:mm"
+   */
+  private getMockTime(msg: string, fallback: string): string {
+    const match = MOCK_TIME.exec(msg);
+    if (!match) return fallback;
+    const hours = (Number(match[1]) % 12) + (match[3] === 'p' ? 12 : 0);
+    return `${String(hours).padStart(2, '0')}:${match[2] || '00'}`;
+  }
+
+  /**
+   * Next occurrence of a month/day as YYYY-MM-DD
+   */
+  private getMockDate(month: number, day: number): string {
+    const now = new Date();
+    const thisYear = new Date(Date.UTC(now.getUTCFullYear(), month - 1, day));
+    const year = thisYear.getTime() >= now.getTime() ? now.getUTCFullYear() : now.getUTCFullYear() + 1;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
   private getMockChatResponse(agentId: string, message: string): ChatResponse {
     const quality = this.getPromptQualityScore();
     const msg = message.toLowerCase();
     let response: string;
+    const actions: NonNullable<ChatResponse['actions']> = [];
 
+    // TRANSFER REQUESTS
+    if (MOCK_TRANSFER_REQUEST.test(msg)) {
+      if (quality >= 0.5) {
+        response = "Of course. I'm transferring you to our front desk now - please hold for a moment.";
+        actions.push({ type: AgentActionType.TRANSFER_CALL, args: { department: 'front desk', reason: 'caller asked for a person' } });
+      } else {
+        response = "I'm an AI assistant, but I can help you with anything you need. What can I assist you with today?";
+      }
+    }
     // INVALID DATE TESTS (Feb 30, 30/02, etc.)
-    if (msg.includes('february 30') || msg.includes('feb 30') || msg.includes('30/02') || msg.includes('30-02')) {
+    else if (msg.includes('february 30') || msg.includes('feb 30') || msg.includes('30/02') || msg.includes('30-02')) {
       if (quality >= 0.5) {
         response = "I notice that February 30th isn't a valid date - February only has 28 or 29 days. Could you please provide a different date? I'd be happy to check our availability.";
       } else {
@@ -263,7 +373,10 @@ Be helpful.`;
       if (quality >= 0.5) {
         response = "I'm sorry, but January 1st is New Year's Day and our clinic is closed. We reopen on January 2nd. Would you like me to schedule your appointment for January 2nd instead? I have openings at 9:00 AM, 11:00 AM, and 2:00 PM.";
       } else {
-        response = "I'd be happy to help you schedule an appointment! Could you please provide your preferred date and time?";
+        // A weak prompt books the holiday without checking
+        const time = this.getMockTime(msg, '10:00');
+        response = `You're all set! I've booked your appointment for January 1st at ${formatTime(time)}.`;
+        actions.push({ type: AgentActionType.BOOK_APPOINTMENT, args: { date: this.getMockDate(1, 1), time } });
       }
     }
     // SUNDAY TESTS
@@ -271,7 +384,26 @@ Be helpful.`;
       if (quality >= 0.5) {
         response = "I'm sorry, but we're closed on Sundays. Our hours are Monday-Friday 8AM-6PM and Saturday 9AM-2PM. Would you like to schedule for Monday instead?";
       } else {
-        response = "I'd be happy to help you schedule an appointment! Could you please provide your preferred date and time?";
+        // A weak prompt books the closed day without checking
+        const time = this.getMockTime(msg, '10:00');
+        response = `You're all set! I've booked your appointment for Sunday at ${formatTime(time)}.`;
+        actions.push({ type: AgentActionType.BOOK_APPOINTMENT, args: { day: 'sunday', time } });
+      }
+    }
+    // BOOKING WITH CONTACT DETAILS
+    else if (MOCK_WEEKDAY.test(msg) && findEmail(message)) {
+      if (quality >= 0.6) {
+        const day = MOCK_WEEKDAY.exec(msg)![1];
+        const time = this.getMockTime(msg, '09:00');
+        const email = findEmail(message)!;
+        const phone = MOCK_PHONE.exec(message)?.[0];
+        response = `Perfect! I've booked your appointment for ${day.charAt(0).toUpperCase() + day.slice(1)} at ${formatTime(time)}. A confirmation will be sent to ${email}${phone ? ' and by text message' : ''}.`;
+        actions.push({ type: AgentActionType.BOOK_APPOINTMENT, args: { day, time, email } });
+        if (phone) {
+          actions.push({ type: AgentActionType.SEND_SMS, args: { to: phone.replace(/\D/g, ''), template: 'appointment_confirmation' } });
+        }
+      } else {
+        response = "Thank you! Someone from our team will get back to you.";
       }
     }
     // SERVICE INQUIRY
@@ -326,6 +458,7 @@ Be helpful.`;
     return {
       message: response,
       conversationId: `mock-conv-${Date.now()}`,
+      actions,
     };
   }
 
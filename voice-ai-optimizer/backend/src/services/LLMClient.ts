@@ -1,5 +1,8 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { config } from '../config/index.js';
+import { BusinessContext, TestCategory } from '../types/index.js';
+import { getCategoryStrategy } from './CategoryStrategies.js';
+import { formatKnowledgeBase } from '../utils/knowledgeBase.js';
 
 // Sanitization patterns for prompt injection prevention
 const INJECTION_PATTERNS = [
@@ -70,6 +73,30 @@ class LLMClient {
     return sanitized;
   }
 
+  /**
+   * Render an agent's business context as prompt lines
+   */
+  private formatBusinessContext(context: BusinessContext = {}): string {
+    const lines: string[] = [];
+    if (context.industry) lines.push(`- Industry: ${context.industry}`);
+    if (context.useCase) lines.push(`- Use case: ${context.useCase}`);
+    if (context.targetAudience) lines.push(`- Callers: ${context.targetAudience}`);
+    if (context.knowledgeBase) lines.push(...formatKnowledgeBase(context.knowledgeBase));
+    if (context.complianceRequirements?.length) lines.push(`- Compliance: ${context.complianceRequirements.join(', ')}`);
+
+    if (lines.length === 0) {
+      return 'BUSINESS CONTEXT: Not provided - judge only against what the agent prompt and conversation establish.';
+    }
+    return `BUSINESS CONTEXT:\n${this.sanitizeInput(lines.join('\n'))}`;
+  }
+
+  /**
+   * Short label for the business an agent serves, used in prompt wording
+   */
+  private describeBusiness(context: BusinessContext = {}): string {
+    return [context.industry, context.useCase].filter(Boolean).join(' / ') || 'business';
+  }
+
   /**
    * Exponential backoff retry logic
    */
@@ -261,15 +288,14 @@ Return a JSON object with these fields:
     };
     category: string;
     count: number;
-    businessContext?: {
-      industry?: string;
-      useCase?: string;
-    };
+    businessContext?: BusinessContext;
+    focus?: string;
+    existingNames?: string[];
   }): Promise<Array<{
     name: string;
     description: string;
     category: string;
-    conversationScript: Array<{ role: 'user' | 'expected-agent'; content: string }>;
+    conversationScript: Array<{ role: 'user' | 'expected-agent'; content: string; timing?: number }>;
     successCriteria: Array<{
       name: string;
       description: string;
@@ -281,37 +307,21 @@ Return a JSON object with these fields:
     priority: string;
     tags: string[];
   }>> {
-    // Define specific test scenarios based on category
-    let categoryGuidance = '';
-    if (params.category === 'happy-path') {
-      categoryGuidance = `Generate HAPPY PATH tests that verify basic functionality:
-- Scheduling a routine appointment successfully
-- Asking about services and getting detailed information with prices
-- Getting vaccination information`;
-    } else if (params.category === 'edge-case') {
-      categoryGuidance = `Generate EDGE CASE tests that verify boundary conditions:
-- User provides invalid date like February 30th (should be caught)
-- User requests appointment on a holiday like January 1st (should suggest alternative)
-- User asks about services without specifying which one`;
-    } else if (params.category === 'adversarial') {
-      categoryGuidance = `Generate ADVERSARIAL tests that verify robustness:
-- User provides ambiguous requests that need clarification
-- User asks about services in a confusing way
-- User provides incomplete information`;
-    }
+    const strategy = getCategoryStrategy(params.category as TestCategory);
+    const categoryGuidance = strategy
+      ? strategy.guidance(params.businessContext || {})
+      : `Generate ${params.category.toUpperCase()} tests for this agent.`;
 
     const messages: ChatMessage[] = [
       {
         role: 'system',
-        content: `You are an expert QA engineer specializing in Voice AI testing for a DENTAL CLINIC.
+        content: `You are an expert QA engineer specializing in Voice AI testing for a ${this.describeBusiness(params.businessContext)} agent.
 
 ${categoryGuidance}
 
-BUSINESS CONTEXT - Bright Smile Dental Clinic:
-- Services: Cleanings ($99), Whitening ($299), Fillings ($150-$300), Root Canal ($800-$1200), Crowns ($900-$1500), Pediatric ($75-$200), Vaccinations (Flu $25, COVID Free)
-- Hours: Mon-Fri 8AM-6PM, Sat 9AM-2PM, Sun CLOSED, Holidays CLOSED
-- Must collect: email for confirmations
-- Must validate: dates (Feb has 28/29 days), working days
+${this.formatBusinessContext(params.businessContext)}
+
+Test cases must only reference services, prices and hours from the business context above.
 
 IMPORTANT: Return a JSON object with this EXACT structure:
 {
@@ -335,7 +345,7 @@ IMPORTANT: Return a JSON object with this EXACT structure:
         }
       ],
       "priority": "high",
-      "tags": ["dental", "appointment"]
+      "tags": ["scheduling", "pricing"]
     }
   ]
 }
@@ -344,19 +354,24 @@ CRITICAL RULES:
 1. conversationScript MUST start with a "user" turn
 2. Use ONLY "user" or "expected-agent" for role values
 3. Make success criteria SPECIFIC and MEASURABLE
-4. Return valid JSON only, no markdown`,
+4. evaluatorType is "llm", "keyword" (also give "keywords": [...] and "matchAll": true|false) or "regex" (also give "pattern").
+   For sentiment or tone checks prefer the cheaper local evaluators: "sentiment" (give "allowed": ["positive"|"neutral"|"negative"])
+   or "tone" (give "required" and/or "forbidden" from: polite, apologetic, empathetic, formal, casual, rude)
+   For information-collected criteria use "slots" (give "slots": [...] naming items from Data to Collect)
+   For action-taken criteria use "action" (give "expected" and/or "forbidden": [{"type": "book_appointment"|"transfer_call"|"send_sms", "args": {...}}])
+5. Return valid JSON only, no markdown${strategy?.scriptRules ? `\n6. ${strategy.scriptRules}` : ''}`,
       },
       {
         role: 'user',
-        content: `Generate ${params.count} ${params.category} test cases for the dental clinic Voice AI agent.
+        content: `Generate ${params.count} ${params.category} test cases for the ${this.describeBusiness(params.businessContext)} Voice AI agent.
 
 The agent's current capabilities based on prompt analysis:
 - Intents: ${params.promptAnalysis.intents.join(', ')}
 - Constraints: ${params.promptAnalysis.constraints.join(', ')}
 - Expected Behaviors: ${params.promptAnalysis.expectedBehaviors.join(', ')}
 - Data to Collect: ${params.promptAnalysis.dataToCollect.join(', ')}
-
-Generate realistic test conversations that a dental clinic customer might have.`,
+${params.focus ? `\nFOCUS AREA: Every test case must exercise this area: ${this.sanitizeInput(params.focus)}\n` : ''}${params.existingNames?.length ? `\nDo NOT repeat these existing test cases: ${params.existingNames.join('; ')}\n` : ''}
+Generate realistic test conversations that a caller to this business might have.`,
       },
     ];
 
@@ -365,7 +380,7 @@ Generate realistic test conversations that a dental clinic customer might have.`
         name: string;
         description: string;
         category: string;
-        conversationScript: Array<{ role: 'user' | 'expected-agent'; content: string }>;
+        conversationScript: Array<{ role: 'user' | 'expected-agent'; content: string; timing?: number }>;
         successCriteria: Array<{
           name: string;
           description: string;
@@ -395,10 +410,8 @@ Generate realistic test conversations that a dental clinic customer might have.`
       prompt?: string;
     };
     conversationTurns: Array<{ role: string; content: string }>;
-    businessContext?: {
-      services?: string[];
-      workingHours?: string;
-    };
+    businessContext?: BusinessContext;
+    temperature?: number; // Raised when sampling several judgments for self-consistency
   }): Promise<{
     passed: boolean;
     score: number;
@@ -413,7 +426,7 @@ Generate realistic test conversations that a dental clinic customer might have.`
     const messages: ChatMessage[] = [
       {
         role: 'system',
-        content: `You are an expert evaluator for Voice AI agents at a dental clinic. Evaluate the agent's response using these metrics:
+        content: `You are an expert evaluator for Voice AI agents at a ${this.describeBusiness(params.businessContext)}. Evaluate the agent's response using these metrics:
 
 PERFORMANCE METRICS (score each 0-1):
 1. relevance: Does the response address the user's actual question/need?
@@ -421,15 +434,15 @@ PERFORMANCE METRICS (score each 0-1):
 3. completeness: Does the response include all necessary information?
 4. helpfulness: Does the response help the user achieve their goal?
 
-BUSINESS CONTEXT:
-- Services: Cleanings ($99), Whitening ($299), Fillings ($150-$300), Root Canal ($800-$1200), Crowns ($900-$1500), Pediatric ($75-$200), Flu shots ($25), COVID vaccines (Free)
-- Hours: Mon-Fri 8AM-6PM, Sat 9AM-2PM, Sun CLOSED, Holidays CLOSED
-- Must validate dates (Feb has 28/29 days only)
+${this.formatBusinessContext(params.businessContext)}
+
+EXPECTED BEHAVIORS:
+- Must validate dates (e.g. February has only 28/29 days)
 - Must recognize non-working days and suggest alternatives
 
 Return a JSON object with:
 {
-  "passed": boolean (true if overall score >= 0.7),
+  "passed": boolean (true if overall score >= ${config.JUDGE_PASS_THRESHOLD}),
   "score": number (average of all metrics, 0-1),
   "reasoning": "detailed explanation",
   "metrics": {
@@ -446,7 +459,7 @@ Return a JSON object with:
 
 CRITERION: ${params.criterion.name}
 DESCRIPTION: ${params.criterion.description}
-
+${params.criterion.prompt && params.criterion.prompt !== params.criterion.description ? `CHECK: ${params.criterion.prompt}\n` : ''}
 CONVERSATION:
 ${params.conversationTurns.map(t => `${t.role.toUpperCase()}: ${t.content}`).join('\n')}
 
@@ -464,7 +477,7 @@ Score each metric 0-1 and provide detailed reasoning.`,
         completeness: number;
         helpfulness: number;
       };
-    }>(messages, { temperature: 0.1 });
+    }>(messages, { temperature: params.temperature ?? 0.1 });
 
     // Ensure all scores are within bounds
     const metrics = response.data.metrics || { relevance: 0, accuracy: 0, completeness: 0, helpfulness: 0 };
@@ -477,13 +490,48 @@ Score each metric 0-1 and provide detailed reasoning.`,
     const overallScore = (metrics.relevance + metrics.accuracy + metrics.completeness + metrics.helpfulness) / 4;
     
     return {
-      passed: overallScore >= 0.7,
+      passed: overallScore >= config.JUDGE_PASS_THRESHOLD,
       score: Math.max(0, Math.min(1, overallScore)),
       reasoning: response.data.reasoning || 'No reasoning provided',
       metrics,
     };
   }
 
+  /**
+   * Judge whether an actual agent turn is equivalent in meaning to the expected one
+   */
+  async compareTurn(params: {
+    userMessage: string;
+    expected: string;
+    actual: string;
+    businessContext?: BusinessContext;
+  }): Promise<{ score: number; reasoning: string }> {
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You compare a Voice AI agent's reply at a ${this.describeBusiness(params.businessContext)} with the reply the test author expected.
+Score 0-1 how well the ACTUAL reply achieves the same outcome as the EXPECTED reply: same information, same next step, same stance.
+Wording and tone differences do not matter. Missing or contradicting facts do.
+
+${this.formatBusinessContext(params.businessContext)}
+
+Return a JSON object: { "score": number (0-1), "reasoning": "one or two sentences" }`,
+      },
+      {
+        role: 'user',
+        content: `USER: ${this.sanitizeInput(params.userMessage)}
+EXPECTED: ${this.sanitizeInput(params.expected)}
+ACTUAL: ${this.sanitizeInput(params.actual)}`,
+      },
+    ];
+
+    const response = await this.chatJSON<{ score: number; reasoning: string }>(messages, { temperature: 0.1 });
+    return {
+      score: Math.max(0, Math.min(1, Number(response.data.score) || 0)),
+      reasoning: response.data.reasoning || 'No reasoning provided',
+    };
+  }
+
   /**
    * Generate an optimized prompt based on failure analysis
    */
@@ -495,10 +543,7 @@ Score each metric 0-1 and provide detailed reasoning.`,
       suggestedFix?: string;
     }>;
     recommendations: string[];
-    businessContext?: {
-      industry?: string;
-      useCase?: string;
-    };
+    businessContext?: BusinessContext;
   }): Promise<{
     optimizedPrompt: string;
     changes: Array<{
@@ -515,33 +560,18 @@ Score each metric 0-1 and provide detailed reasoning.`,
     const messages: ChatMessage[] = [
       {
         role: 'system',
-        content: `You are an expert prompt engineer specializing in Voice AI agents for healthcare/dental clinics. Your task is to improve the given prompt based on identified failure patterns.
-
-CRITICAL: The optimized prompt MUST include these specific details for a dental clinic:
-
-1. SERVICES WITH PRICES:
-   - Routine Dental Cleanings ($99)
-   - Teeth Whitening ($299)
-   - Dental Fillings ($150-$300)
-   - Root Canal Treatment ($800-$1200)
-   - Dental Crowns ($900-$1500)
-   - Orthodontic Consultations (Free)
-   - Emergency Dental Care
-   - Pediatric Dentistry ($75-$200)
-   - Vaccinations: Flu shots ($25), COVID-19 (Free)
-
-2. WORKING HOURS:
-   - Monday to Friday: 8:00 AM - 6:00 PM
-   - Saturday: 9:00 AM - 2:00 PM
-   - Sunday: CLOSED
-   - Holidays: CLOSED (New Year's Day, etc.)
-
-3. BEHAVIORS:
-   - Validate dates (February only has 28/29 days)
-   - Recognize non-working days and suggest alternatives
-   - Ask clarifying questions for ambiguous requests
-   - Confirm appointments with date, time, and service type
-   - Always collect email for confirmations
+        content: `You are an expert prompt engineer specializing in Voice AI agents for ${this.describeBusiness(params.businessContext)} businesses. Your task is to improve the given prompt based on identified failure patterns.
+
+CRITICAL: The optimized prompt MUST include the business details below verbatim where relevant:
+
+${this.formatBusinessContext(params.businessContext)}
+
+BEHAVIORS:
+- Validate dates (e.g. February only has 28/29 days)
+- Recognize non-working days and suggest alternatives
+- Ask clarifying questions for ambiguous requests
+- Confirm bookings with date, time, and service type
+- Collect the contact details needed for confirmations
 
 Guidelines:
 1. Make targeted changes that address specific failures
@@ -556,7 +586,7 @@ Return a JSON object with:
       },
       {
         role: 'user',
-        content: `Optimize this Voice AI agent prompt for a dental clinic:
+        content: `Optimize this Voice AI agent prompt for a ${this.describeBusiness(params.businessContext)}:
 
 CURRENT PROMPT:
 ${sanitizedPrompt}
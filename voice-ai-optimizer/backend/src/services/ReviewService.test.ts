@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReviewItemModel, ExecutionResultModel } from '../models/index.js';
+import { reviewService, hashConversation } from './ReviewService.js';
+import {
+  CriteriaType,
+  Evaluation,
+  EvaluatorType,
+  Priority,
+  ReviewReason,
+  ReviewStatus,
+  TestCase,
+  TestCategory,
+} from '../types/index.js';
+
+vi.mock('../models/index.js', () => ({
+  ReviewItemModel: { find: vi.fn(), findOne: vi.fn(), findOneAndUpdate: vi.fn() },
+  GoldLabelModel: {},
+  ExecutionResultModel: { aggregate: vi.fn() },
+}));
+
+const reviewItems = vi.mocked(ReviewItemModel);
+const executions = vi.mocked(ExecutionResultModel);
+
+const CONVERSATION = [
+  { role: 'user' as const, content: 'Book me for Sunday' },
+  { role: 'assistant' as const, content: "You're booked for Sunday." },
+];
+
+const testCase: TestCase = {
+  id: 'case-1',
+  suiteId: 'suite-1',
+  name: 'Closed day',
+  description: 'Asks for a Sunday',
+  category: TestCategory.EDGE_CASE,
+  conversationScript: [{ role: 'user', content: 'Book me for Sunday' }],
+  successCriteria: [{
+    id: 'no-sunday',
+    name: 'Refuses Sunday',
+    description: 'Agent does not book a closed day',
+    type: CriteriaType.NOT_CONTAINS,
+    evaluator: { type: EvaluatorType.KEYWORD, config: { keywords: ['booked'], matchAll: false } },
+    weight: 1,
+    required: true,
+  }],
+  priority: Priority.HIGH,
+  tags: [],
+};
+
+const evaluation = (overrides: Partial<Evaluation> = {}): Evaluation => ({
+  testCaseId: 'case-1',
+  passed: true,
+  criteriaResults: [{ criterionId: 'no-sunday', passed: true, score: 1, reasoning: '' }],
+  overallScore: 0.9,
+  reasoning: 'Judge reasoning',
+  confidence: 0.9,
+  conversation: CONVERSATION,
+  ...overrides,
+});
+
+describe('hashConversation', () => {
+  it('ignores whitespace differences but not wording', () => {
+    const spaced = [CONVERSATION[0], { role: 'assistant' as const, content: "  You're   booked for Sunday. " }];
+    expect(hashConversation(spaced)).toBe(hashConversation(CONVERSATION));
+    expect(hashConversation([CONVERSATION[0]])).not.toBe(hashConversation(CONVERSATION));
+  });
+});
+
+describe('ReviewService', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    executions.aggregate.mockResolvedValue([]);
+    reviewItems.findOne.mockResolvedValue(null);
+  });
+
+  it('replaces a judge verdict with the human override for the same transcript', async () => {
+    reviewItems.find.mockResolvedValue([{
+      testCaseId: 'case-1',
+      conversationHash: hashConversation(CONVERSATION),
+      override: { passed: false, overallScore: 0, note: 'Booked a closed day', reviewer: 'sam' },
+    }] as never);
+
+    const [overridden, untouched] = await reviewService.applyOverrides([
+      evaluation(),
+      evaluation({ testCaseId: 'case-2' }),
+    ]);
+    expect(overridden).toMatchObject({ passed: false, overallScore: 0, overridden: true, confidence: 1 });
+    expect(overridden.reasoning).toContain('Human override by sam: Booked a closed day');
+    expect(untouched).toEqual(evaluation({ testCaseId: 'case-2' }));
+  });
+
+  it('queues low-confidence and failed-required verdicts', async () => {
+    const queued = await reviewService.flagForReview('agent-1', [testCase], [evaluation({
+      passed: false,
+      needsReview: true,
+      criteriaResults: [{ criterionId: 'no-sunday', passed: false, score: 0, reasoning: '' }],
+    })]);
+
+    expect(queued).toBe(1);
+    const [, update] = reviewItems.findOneAndUpdate.mock.calls[0] as unknown as [unknown, { reasons: ReviewReason[] }];
+    expect(update.reasons).toEqual([ReviewReason.LOW_CONFIDENCE, ReviewReason.FAILED_REQUIRED]);
+  });
+
+  it('queues a verdict that flipped since the previous run in the execution history', async () => {
+    executions.aggregate.mockResolvedValue([{ _id: 'case-1', passed: false }]);
+
+    expect(await reviewService.flagForReview('agent-1', [testCase], [evaluation()])).toBe(1);
+    const [, update] = reviewItems.findOneAndUpdate.mock.calls[0] as unknown as [unknown, { reasons: ReviewReason[] }];
+    expect(update.reasons).toEqual([ReviewReason.RUN_DISAGREEMENT]);
+  });
+
+  it('leaves the run being flagged out of the history it is compared with', async () => {
+    const executionId = '64b7f0c2a1b2c3d4e5f60718';
+    await reviewService.flagForReview('agent-1', [testCase], [evaluation()], [], executionId);
+
+    const [pipeline] = executions.aggregate.mock.calls[0] as unknown as [Array<{ $match?: { _id?: { $ne: unknown } } }>];
+    expect(String(pipeline[0].$match?._id?.$ne)).toBe(executionId);
+  });
+
+  it('skips confident passes and transcripts a human already decided', async () => {
+    expect(await reviewService.flagForReview('agent-1', [testCase], [evaluation()])).toBe(0);
+
+    reviewItems.findOne.mockResolvedValue({ status: ReviewStatus.OVERRIDDEN } as never);
+    expect(await reviewService.flagForReview('agent-1', [testCase], [evaluation({ needsReview: true })])).toBe(0);
+    expect(reviewItems.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+import { createHash } from 'crypto';
+import mongoose from 'mongoose';
+import { ReviewItemModel, ReviewItemDocument, GoldLabelModel, ExecutionResultModel } from '../models/index.js';
+import {
+  Evaluation,
+  TestCase,
+  SuccessCriteria,
+  ReviewReason,
+  ReviewStatus,
+} from '../types/index.js';
+
+type Conversation = Array<{ role: 'user' | 'assistant'; content: string }>;
+
+export interface ReviewOverrideInput {
+  passed: boolean;
+  overallScore?: number;
+  note: string;
+  reviewer: string;
+}
+
+/**
+ * Stable fingerprint of a conversation, so a verdict can be matched to the exact transcript it judged
+ */
+export function hashConversation(conversation: Conversation): string {
+  const normalized = conversation.map(t => `${t.role}:${t.content.trim().replace(/\s+/g, ' ')}`).join('\n');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+class ReviewService {
+  /**
+   * Replace judge verdicts with human overrides for conversations a reviewer has already labeled
+   */
+  async applyOverrides(evaluations: Evaluation[]): Promise<Evaluation[]> {
+    const keyed = evaluations
+      .filter(e => e.conversation)
+      .map(e => ({ testCaseId: e.testCaseId, conversationHash: hashConversation(e.conversation!) }));
+    if (keyed.length === 0) return evaluations;
+
+    const reviewed = await ReviewItemModel.find({ status: ReviewStatus.OVERRIDDEN, $or: keyed });
+    const overrides = new Map(reviewed.map(r => [`${r.testCaseId}:${r.conversationHash}`, r.override!]));
+
+    return evaluations.map(evaluation => {
+      if (!evaluation.conversation) return evaluation;
+      const override = overrides.get(`${evaluation.testCaseId}:${hashConversation(evaluation.conversation)}`);
+      if (!override) return evaluation;
+
+      return {
+        ...evaluation,
+        passed: override.passed,
+        overallScore: override.overallScore,
+        reasoning: `Human override by ${override.reviewer}: ${override.note}\n(Judge said ${evaluation.passed ? 'PASS' : 'FAIL'} at ${(evaluation.overallScore * 100).toFixed(0)}%)\n${evaluation.reasoning}`,
+        confidence: 1,
+        needsReview: false,
+        overridden: true,
+      };
+    });
+  }
+
+  /**
+   * Queue evaluations that need a human: low confidence, failed required criteria, or a verdict that flipped.
+   * The run being flagged is left out of the execution history it is compared with
+   */
+  async flagForReview(
+    agentId: string,
+    testCases: TestCase[],
+    evaluations: Evaluation[],
+    globalCriteria: SuccessCriteria[] = [],
+    executionId?: string
+  ): Promise<number> {
+    let queued = 0;
+    const previousVerdicts = await this.previousVerdicts(agentId, evaluations.map(e => e.testCaseId), executionId);
+
+    for (const evaluation of evaluations) {
+      const testCase = testCases.find(tc => tc.id === evaluation.testCaseId);
+      if (!testCase || !evaluation.conversation || evaluation.overridden) continue;
+
+      const reasons = this.reasonsFor(testCase, evaluation, globalCriteria, previousVerdicts.get(testCase.id));
+      if (reasons.length === 0) continue;
+
+      const conversationHash = hashConversation(evaluation.conversation);
+      // Only touch pending items; a human decision on this transcript stands
+      const existing = await ReviewItemModel.findOne({ testCaseId: testCase.id, conversationHash });
+      if (existing && existing.status !== ReviewStatus.PENDING) continue;
+
+      await ReviewItemModel.findOneAndUpdate(
+        { testCaseId: testCase.id, conversationHash },
+        {
+          agentId,
+          suiteId: testCase.suiteId,
+          testCaseId: testCase.id,
+          testCaseName: testCase.name,
+          conversationHash,
+          conversation: evaluation.conversation,
+          reasons,
+          status: ReviewStatus.PENDING,
+          judgeVerdict: {
+            passed: evaluation.passed,
+            overallScore: evaluation.overallScore,
+            confidence: evaluation.confidence,
+            reasoning: evaluation.reasoning,
+            criteriaResults: [...evaluation.criteriaResults, ...(evaluation.globalCriteriaResults || [])],
+          },
+        },
+        { upsert: true, new: true }
+      );
+      queued++;
+    }
+
+    if (queued > 0) {
+      console.log(`  📝 Queued ${queued} evaluation(s) for human review`);
+    }
+    return queued;
+  }
+
+  /**
+   * Record a reviewer's verdict and add the conversation to the gold set
+   */
+  async override(reviewId: string, input: ReviewOverrideInput): Promise<ReviewItemDocument | null> {
+    const review = await ReviewItemModel.findById(reviewId);
+    if (!review) return null;
+
+    const overallScore = input.overallScore ?? (input.passed ? 1 : 0);
+    const label = {
+      agentId: review.agentId,
+      name: review.testCaseName,
+      conversation: review.conversation,
+      humanPassed: input.passed,
+      humanScore: overallScore,
+      labeledBy: input.reviewer,
+      notes: input.note,
+      tags: ['review-override', ...review.reasons],
+    };
+    // Re-reviewing updates the same gold label instead of adding a duplicate
+    const goldLabel = (review.goldLabelId
+      ? await GoldLabelModel.findByIdAndUpdate(review.goldLabelId, label, { new: true, runValidators: true })
+      : null) ?? await GoldLabelModel.create(label);
+
+    review.status = ReviewStatus.OVERRIDDEN;
+    review.override = { ...input, overallScore, reviewedAt: new Date() };
+    review.goldLabelId = goldLabel._id.toString();
+    await review.save();
+
+    console.log(`✍️ Review ${reviewId} overridden by ${input.reviewer}: ${input.passed ? 'PASS' : 'FAIL'}`);
+    return review;
+  }
+
+  /**
+   * Each test case's verdict in the agent's latest earlier run, read from the execution history
+   */
+  private async previousVerdicts(agentId: string, testCaseIds: string[], executionId?: string): Promise<Map<string, boolean>> {
+    if (testCaseIds.length === 0) return new Map();
+    const latest = await ExecutionResultModel.aggregate<{ _id: string; passed: boolean }>([
+      {
+        $match: {
+          agentId,
+          'evaluations.testCaseId': { $in: testCaseIds },
+          ...(executionId && { _id: { $ne: new mongoose.Types.ObjectId(executionId) } }),
+        },
+      },
+      { $sort: { startedAt: -1 } },
+      { $unwind: '$evaluations' },
+      { $match: { 'evaluations.testCaseId': { $in: testCaseIds } } },
+      { $group: { _id: '$evaluations.testCaseId', passed: { $first: '$evaluations.passed' } } },
+    ]);
+    return new Map(latest.map(v => [v._id, v.passed]));
+  }
+
+  private reasonsFor(
+    testCase: TestCase,
+    evaluation: Evaluation,
+    globalCriteria: SuccessCriteria[],
+    previous?: boolean
+  ): ReviewReason[] {
+    const reasons: ReviewReason[] = [];
+
+    if (evaluation.needsReview) {
+      reasons.push(ReviewReason.LOW_CONFIDENCE);
+    }
+
+    const results = [...evaluation.criteriaResults, ...(evaluation.globalCriteriaResults || [])];
+    const required = [...testCase.successCriteria, ...globalCriteria].filter(c => c.required);
+    if (required.some(c => results.find(r => r.criterionId === c.id)?.passed === false)) {
+      reasons.push(ReviewReason.FAILED_REQUIRED);
+    }
+
+    if (evaluation.stability?.flaky || (previous !== undefined && previous !== evaluation.passed)) {
+      reasons.push(ReviewReason.RUN_DISAGREEMENT);
+    }
+
+    return reasons;
+  }
+}
+
+export const reviewService = new ReviewService();
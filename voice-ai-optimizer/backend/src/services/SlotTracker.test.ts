@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { slotTracker, findEmail, findIntroducedName } from './SlotTracker.js';
+import { SlotKind, SlotStatus } from '../types/index.js';
+
+type Conversation = Array<{ role: 'user' | 'assistant'; content: string }>;
+
+const conversation = (...turns: string[]): Conversation =>
+  turns.map((content, i) => ({ role: i % 2 === 0 ? 'user' : 'assistant', content }));
+
+const track = (slot: string, ...turns: string[]) => slotTracker.track(conversation(...turns), [slot])[0];
+
+describe('findIntroducedName', () => {
+  it('matches introductions at the start of a sentence or mid-sentence', () => {
+    expect(findIntroducedName('My name is Jane Doe')).toBe('Jane Doe');
+    expect(findIntroducedName("Hi, I'm Jane.")).toBe('Jane');
+    expect(findIntroducedName('Hello, this is Sam Lee calling')).toBe('Sam Lee');
+    expect(findIntroducedName('i am Jane')).toBe('Jane');
+  });
+
+  it('only takes a capitalized name', () => {
+    expect(findIntroducedName("I'm calling about a cleaning")).toBeNull();
+  });
+});
+
+describe('findEmail', () => {
+  it('reads written and spoken addresses', () => {
+    expect(findEmail('It is Jane@Example.com')).toBe('jane@example.com');
+    expect(findEmail('jane at example dot com')).toBe('jane@example.com');
+    expect(findEmail('no email here')).toBeNull();
+  });
+});
+
+describe('SlotTracker', () => {
+  it('is missing when never asked for nor given', () => {
+    expect(track('name', 'Hi', 'How can I help?')).toMatchObject({ kind: SlotKind.NAME, status: SlotStatus.MISSING, requested: false });
+  });
+
+  it('is unanswered when asked for but not given', () => {
+    expect(track('email', 'Hi', 'What is your email address?', 'I would rather not say.')).toMatchObject({
+      status: SlotStatus.UNANSWERED,
+      requested: true,
+      supplied: false,
+    });
+  });
+
+  it('counts a capitalized introduction as the name, asked for or not', () => {
+    expect(track('name', 'Hi', "What's your name?", 'My name is Jane Doe', 'Thanks!')).toMatchObject({
+      status: SlotStatus.UNCONFIRMED,
+      value: 'Jane Doe',
+    });
+    expect(track('name', "I'm Jane Doe", 'How can I help?')).toMatchObject({ status: SlotStatus.UNCONFIRMED, requested: false });
+  });
+
+  it('is confirmed once the agent reads the value back', () => {
+    expect(track('name', 'Hi', "What's your name?", 'Jane Doe', 'Thanks Jane, how can I help?')).toMatchObject({
+      status: SlotStatus.CONFIRMED,
+      value: 'Jane Doe',
+    });
+    expect(track('callback number', 'Hi', 'What number can we reach you at?', '555-123-4567', 'Got it, ending in 4567.')).toMatchObject({
+      kind: SlotKind.PHONE,
+      status: SlotStatus.CONFIRMED,
+    });
+  });
+
+  it('needs the same value read back, not just any value', () => {
+    expect(track('preferred date', 'Hi', 'What day works for you?', 'Tuesday please', 'Great, see you Wednesday.')).toMatchObject({
+      kind: SlotKind.DATE,
+      status: SlotStatus.UNCONFIRMED,
+      value: 'tuesday',
+    });
+  });
+
+  it('takes a direct answer to a free-form slot', () => {
+    expect(track('insurance provider', 'Hi', 'Who is your insurance provider?', 'Delta Dental', 'Delta Dental is in network.')).toMatchObject({
+      kind: SlotKind.OTHER,
+      status: SlotStatus.CONFIRMED,
+      value: 'Delta Dental',
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { KnowledgeBase, SlotKind, SlotResult, SlotStatus } from '../types/index.js';
+
+type Conversation = Array<{ role: 'user' | 'assistant'; content: string }>;
+
+interface SlotMatcher {
+  /** Agent wording that refers to the slot; only counts as a request alongside REQUEST_CUE */
+  ask: RegExp;
+  /** Values found in a message, in a canonical form so a read-back can be compared */
+  extract: (text: string) => string[];
+  /** Fallback for free-form slots: take the caller's direct answer to the request */
+  answer?: (text: string) => string | null;
+  readsBack: (text: string, value: string) => boolean;
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const MONTHS = 'january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec';
+const DATE_PATTERN = new RegExp(
+  `\\b(?:(${MONTHS})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?|(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTHS})|(\\d{1,2})/(\\d{1,2})(?:/\\d{2,4})?|(monday|tuesday|wednesday|thursday|friday|saturday|sunday|today|tomorrow))\\b`,
+  'gi'
+);
+const TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s?m\b\.?|\b(noon|midday|morning|afternoon|evening)\b/gi;
+// Case-sensitive so only a capitalized name is captured; the intro spells out its capitalized forms
+const NAME_INTRO = /\b(?:[Mm]y name is|[Tt]his is|[Ii] am|[Ii]'m)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/;
+// A bare answer to "what's your name?", e.g. "Jane Doe" or "It's Jane."
+const NAME_ANSWER = /^\s*(?:(?:sure|yes|yeah|ok|okay)[,.]?\s+)?(?:it's\s+|it is\s+)?([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2})[.!]?\s*$/;
+const REQUEST_CUE = /\?|\b(?:i(?:'ll| will)? need|please (?:provide|share|give|tell|spell|confirm)|can i (?:get|have)|may i (?:have|get))\b/i;
+
+// Words that name a slot without identifying it ("preferred date", "customer email")
+const SLOT_FILLER = new Set([
+  'the', 'a', 'an', 'of', 'and', 'or', 'for', 'to', 'your', 'their', 'preferred', 'desired', 'user', 'customer',
+  'caller', 'patient', 'client', 'information', 'info', 'details', 'detail', 'data',
+]);
+// Words that don't show a free-form answer was read back
+const ANSWER_FILLER = new Set([
+  'yes', 'yeah', 'sure', 'okay', 'that', 'this', 'have', 'with', 'would', 'like', 'please', 'thanks', 'thank',
+  'just', 'about', 'what', 'there', 'they', 'them', 'it\'s', 'i\'m', 'i\'d', 'want', 'need', 'from', 'your',
+]);
+const NO_ANSWER = /^\s*(?:no|nope|i don't know|not sure|i'd rather not|skip)\b/i;
+const MAX_VALUE_LENGTH = 80;
+
+// First match wins, so "date of birth" is a date rather than a name
+const SLOT_KINDS: Array<[SlotKind, RegExp]> = [
+  [SlotKind.EMAIL, /\be-?mail\b/i],
+  [SlotKind.PHONE, /\b(phone|mobile|cell|callback|contact number)\b/i],
+  [SlotKind.DATE, /\b(date|day|birth|dob)\b/i],
+  [SlotKind.TIME, /\btime\b/i],
+  [SlotKind.NAME, /\bname\b/i],
+  [SlotKind.SERVICE, /\b(service|treatment|procedure|reason|appointment type|type of appointment)\b/i],
+];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const mentions = (text: string, word: string) => new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i').test(text);
+const truncate = (text: string) => text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+
+/**
+ * Find an email address, including spoken spellings ("jane at example dot com")
+ */
+export function findEmail(text: string): string | null {
+  const spoken = text.replace(/\s+at\s+/gi, '@').replace(/\s+dot\s+/gi, '.');
+  return (text.match(EMAIL_PATTERN) || spoken.match(EMAIL_PATTERN))?.[0].toLowerCase() ?? null;
+}
+
+/**
+ * Find the name a caller introduces themselves with ("My name is Jane Doe", "I'm Jane")
+ */
+export function findIntroducedName(text: string): string | null {
+  return NAME_INTRO.exec(text)?.[1] ?? null;
+}
+
+function canonicalDates(text: string): string[] {
+  return [...text.matchAll(DATE_PATTERN)].map(m => {
+    if (m[1]) return `${m[1].slice(0, 3).toLowerCase()} ${Number(m[2])}`;
+    if (m[4]) return `${m[4].slice(0, 3).toLowerCase()} ${Number(m[3])}`;
+    if (m[5]) return `${Number(m[5])}/${Number(m[6])}`;
+    return m[7].toLowerCase();
+  });
+}
+
+function canonicalTimes(text: string): string[] {
+  return [...text.matchAll(TIME_PATTERN)].map(m => {
+    if (m[4]) return m[4].toLowerCase() === 'midday' ? 'noon' : m[4].toLowerCase();
+    const minutes = m[2] && m[2] !== '00' ? `:${m[2]}` : '';
+    return `${Number(m[1])}${minutes}${m[3].toLowerCase()}m`;
+  });
+}
+
+/**
+ * Words worth matching from a free-form slot or answer
+ */
+function contentWords(text: string, ignore: Set<string>): string[] {
+  return [...new Set((text.toLowerCase().match(/[a-z][a-z']+/g) || []).filter(w => w.length >= 3 && !ignore.has(w)))];
+}
+
+function slotKind(slot: string): SlotKind {
+  return SLOT_KINDS.find(([, pattern]) => pattern.test(slot))?.[0] ?? SlotKind.OTHER;
+}
+
+function matcherFor(kind: SlotKind, slot: string, knowledgeBase?: KnowledgeBase): SlotMatcher {
+  const containsValue = (extract: (text: string) => string[]) =>
+    (text: string, value: string) => extract(text).includes(value);
+
+  switch (kind) {
+    case SlotKind.EMAIL: {
+      const extract = (text: string) => { const email = findEmail(text); return email ? [email] : []; };
+      return { ask: /\be-?mail\b/i, extract, readsBack: containsValue(extract) };
+    }
+    case SlotKind.PHONE:
+      return {
+        ask: /\b(phone|number|reach you|call you|mobile|cell)\b/i,
+        extract: (text) => [...text.matchAll(PHONE_PATTERN)].map(m => m[0].replace(/\D/g, '').slice(-10)),
+        // Reading back the last four digits is the usual confirmation
+        readsBack: (text, value) => text.replace(/\D/g, '').includes(value.slice(-4)),
+      };
+    case SlotKind.DATE:
+      return { ask: /\b(date|day|when|birth)\b/i, extract: canonicalDates, readsBack: containsValue(canonicalDates) };
+    case SlotKind.TIME:
+      return { ask: /\b(time|when)\b/i, extract: canonicalTimes, readsBack: containsValue(canonicalTimes) };
+    case SlotKind.NAME:
+      return {
+        ask: /\bname\b|\bwho (am i|i'm) speaking\b/i,
+        extract: (text) => { const name = findIntroducedName(text); return name ? [name] : []; },
+        answer: (text) => NAME_ANSWER.exec(text)?.[1] ?? null,
+        // Using the first name is enough
+        readsBack: (text, value) => mentions(text, value.split(/\s+/)[0]),
+      };
+    case SlotKind.SERVICE: {
+      const services = knowledgeBase?.services || [];
+      const extract = (text: string) => services
+        .filter(s => [s.name, ...(s.aliases || [])].some(name => mentions(text, name)))
+        .map(s => s.name);
+      return {
+        ask: /\b(service|treatment|procedure|what (kind|type) of|reason for|what brings you)\b/i,
+        extract,
+        answer: (text) => NO_ANSWER.test(text) ? null : truncate(text.trim()),
+        readsBack: (text, value) => extract(text).includes(value)
+          || contentWords(value, ANSWER_FILLER).some(word => mentions(text, word)),
+      };
+    }
+    default: {
+      // Stems so "insurance providers" also matches "provider"
+      const stems = contentWords(slot, SLOT_FILLER).map(word => word.replace(/(ing|ed|es|s)$/, ''));
+      return {
+        ask: stems.length > 0 ? new RegExp(`\\b(${stems.map(escapeRegExp).join('|')})`, 'i') : /$^/,
+        extract: () => [],
+        answer: (text) => NO_ANSWER.test(text) ? null : truncate(text.trim()),
+        readsBack: (text, value) => contentWords(value, ANSWER_FILLER).some(word => mentions(text, word)),
+      };
+    }
+  }
+}
+
+class SlotTracker {
+  /**
+   * Track each slot: did the agent ask for it, did the caller give it, did the agent read it back
+   */
+  track(conversation: Conversation, slots: string[], knowledgeBase?: KnowledgeBase): SlotResult[] {
+    return [...new Set(slots.map(slot => slot.trim()).filter(Boolean))]
+      .map(slot => this.trackSlot(conversation, slot, knowledgeBase));
+  }
+
+  describe(result: SlotResult): string {
+    switch (result.status) {
+      case SlotStatus.CONFIRMED:
+        return `${result.slot} confirmed (${result.value})`;
+      case SlotStatus.UNCONFIRMED:
+        return `${result.slot} given (${result.value}) but never read back`;
+      case SlotStatus.UNANSWERED:
+        return `${result.slot} asked for but not given`;
+      default:
+        return `${result.slot} never asked for`;
+    }
+  }
+
+  private trackSlot(conversation: Conversation, slot: string, knowledgeBase?: KnowledgeBase): SlotResult {
+    const kind = slotKind(slot);
+    const matcher = matcherFor(kind, slot, knowledgeBase);
+
+    let requested = false;
+    let lastRequestAt = -1;
+    let value: string | undefined;
+    let suppliedAt = -1;
+
+    conversation.forEach((turn, i) => {
+      if (turn.role === 'assistant') {
+        if (matcher.ask.test(turn.content) && REQUEST_CUE.test(turn.content)) {
+          requested = true;
+          lastRequestAt = i;
+        }
+        return;
+      }
+      if (value !== undefined) return;
+
+      const answersRequest = lastRequestAt >= 0 && lastRequestAt === i - 1;
+      const found = matcher.extract(turn.content)[0] ?? (answersRequest ? matcher.answer?.(turn.content) : null);
+      if (found) {
+        value = found;
+        suppliedAt = i;
+      }
+    });
+
+    const supplied = value !== undefined;
+    const confirmed = supplied && conversation
+      .slice(suppliedAt + 1)
+      .some(turn => turn.role === 'assistant' && matcher.readsBack(turn.content, value!));
+    const status = supplied
+      ? confirmed ? SlotStatus.CONFIRMED : SlotStatus.UNCONFIRMED
+      : requested ? SlotStatus.UNANSWERED : SlotStatus.MISSING;
+
+    return { slot, kind, status, requested, supplied, confirmed, ...(value !== undefined && { value }) };
+  }
+}
+
+export const slotTracker = new SlotTracker();
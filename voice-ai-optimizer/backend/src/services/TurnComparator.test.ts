@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { llmClient } from './LLMClient.js';
+import { turnComparator, LEXICAL_TURN_THRESHOLD } from './TurnComparator.js';
+import { TestCase, TestCategory, Priority } from '../types/index.js';
+import { spokenBefore } from '../utils/voiceMetrics.js';
+
+// Both modules read the environment config on import
+vi.mock('./LLMClient.js', () => ({ llmClient: { compareTurn: vi.fn() } }));
+vi.mock('./CriteriaEvaluator.js', () => ({ PASS_THRESHOLD: 0.7 }));
+
+const compareTurn = vi.mocked(llmClient.compareTurn);
+
+const EXPECTED_HOURS = 'We are open Monday to Friday from 8 AM to 6 PM and Saturday from 9 AM to 2 PM.';
+
+const testCase = (...script: Array<[TestCase['conversationScript'][number]['role'], string]>): TestCase => ({
+  id: 'case-1',
+  suiteId: 'suite-1',
+  name: 'Hours',
+  description: 'Asks for opening hours',
+  category: TestCategory.HAPPY_PATH,
+  conversationScript: script.map(([role, content]) => ({ role, content })),
+  successCriteria: [],
+  priority: Priority.MEDIUM,
+  tags: [],
+});
+
+const hoursCase = testCase(['user', 'Hi'], ['expected-agent', 'Hello! How can I help?'], ['user', 'When are you open?'], ['expected-agent', EXPECTED_HOURS]);
+
+const conversation = (...replies: string[]) => [
+  { role: 'user' as const, content: 'Hi' },
+  { role: 'assistant' as const, content: replies[0] },
+  { role: 'user' as const, content: 'When are you open?' },
+  ...(replies[1] !== undefined ? [{ role: 'assistant' as const, content: replies[1] }] : []),
+];
+
+describe('TurnComparator', () => {
+  beforeEach(() => {
+    compareTurn.mockReset();
+  });
+
+  it('pairs only the first expected reply with each user turn', () => {
+    const script = testCase(['user', 'Hi'], ['expected-agent', 'Hello!'], ['expected-agent', 'How can I help?'], ['user', 'Bye']);
+    expect(turnComparator.expectedTurns(script)).toEqual([{ turnIndex: 0, userMessage: 'Hi', expected: 'Hello!' }]);
+  });
+
+  it('passes replies at or above the lexical threshold', async () => {
+    const results = await turnComparator.compare(hoursCase, conversation(
+      'Hello, how can I help you today?',
+      "We're open Monday to Friday 8 AM to 6 PM, and Saturday 9 AM to 2 PM."
+    ));
+    expect(results.map(r => r.passed)).toEqual([true, true]);
+    expect(results[1].similarity).toBeGreaterThanOrEqual(LEXICAL_TURN_THRESHOLD);
+    expect(turnComparator.summarize(results)).toBe('Turn check: all 2 turns matched the expected replies.');
+  });
+
+  it('fails an off-topic reply and points at the first divergence', async () => {
+    const results = await turnComparator.compare(hoursCase, conversation('Hello, how can I help?', 'Please hold while I transfer you.'));
+    expect(results[1].similarity).toBeLessThan(LEXICAL_TURN_THRESHOLD);
+    expect(results[1].passed).toBe(false);
+    expect(turnComparator.summarize(results)).toContain('first divergence at turn 2');
+  });
+
+  it('scores a missing reply 0', async () => {
+    const [, missing] = await turnComparator.compare(hoursCase, conversation('Hello!'));
+    expect(missing).toMatchObject({ score: 0, passed: false, reasoning: 'No agent reply for this turn' });
+  });
+
+  it('scores a reply cut short by a barge-in on what was heard', async () => {
+    const full = "We're open Monday to Friday from 8 AM to 6 PM and Saturday from 9 AM to 2 PM.";
+    // 150 words a minute: the caller cut in after two words
+    const heard = spokenBefore(full, 1000);
+    expect(heard).toBe("We're open…");
+
+    const [, cut] = await turnComparator.compare(hoursCase, conversation('Hello! How can I help?', heard));
+    expect(cut.actual).toBe(heard);
+    expect(cut.passed).toBe(false);
+  });
+
+  it('uses the LLM score when asked and falls back to lexical similarity when it fails', async () => {
+    compareTurn.mockResolvedValueOnce({ score: 0.9, reasoning: 'Same greeting' });
+    compareTurn.mockRejectedValueOnce(new Error('rate limited'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const [greeting, hours] = await turnComparator.compare(
+      hoursCase,
+      conversation('Hi, what can I do for you?', 'Please hold while I transfer you.'),
+      { useLLM: true }
+    );
+    expect(greeting).toMatchObject({ llmScore: 0.9, score: 0.9, passed: true, reasoning: 'Same greeting' });
+    expect(hours.llmScore).toBeUndefined();
+    expect(hours.score).toBe(hours.similarity);
+    expect(hours.passed).toBe(false);
+  });
+});
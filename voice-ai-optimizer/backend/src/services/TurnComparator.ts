@@ -0,0 +1,111 @@
+import { llmClient } from './LLMClient.js';
+import { PASS_THRESHOLD } from './CriteriaEvaluator.js';
+import { lexicalSimilarity } from '../utils/textSimilarity.js';
+import { TestCase, TurnResult, BusinessContext } from '../types/index.js';
+
+// Paraphrases share far fewer words than meanings, so the lexical bar is lower than the LLM's
+export const LEXICAL_TURN_THRESHOLD = 0.3;
+
+export interface TurnComparisonOptions {
+  useLLM?: boolean;
+  businessContext?: BusinessContext;
+}
+
+class TurnComparator {
+  /**
+   * Pair each scripted expected-agent turn with the user turn it answers
+   */
+  expectedTurns(testCase: TestCase): Array<{ turnIndex: number; userMessage: string; expected: string }> {
+    const pairs: Array<{ turnIndex: number; userMessage: string; expected: string }> = [];
+    let userIndex = -1;
+    let userMessage = '';
+
+    for (const turn of testCase.conversationScript) {
+      if (turn.role === 'user') {
+        userIndex++;
+        userMessage = turn.content;
+      } else if (turn.role === 'expected-agent' && userIndex >= 0) {
+        // Only the first expected reply after a user turn is comparable to the single actual reply
+        if (pairs[pairs.length - 1]?.turnIndex !== userIndex) {
+          pairs.push({ turnIndex: userIndex, userMessage, expected: turn.content });
+        }
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Score each actual agent reply against its expected turn
+   */
+  async compare(
+    testCase: TestCase,
+    conversation: Array<{ role: 'user' | 'assistant'; content: string }>,
+    options: TurnComparisonOptions = {}
+  ): Promise<TurnResult[]> {
+    // simulateConversation answers every user message with exactly one reply
+    const replies: string[] = [];
+    conversation.forEach((turn, i) => {
+      if (turn.role === 'user') {
+        replies.push(conversation[i + 1]?.role === 'assistant' ? conversation[i + 1].content : '');
+      }
+    });
+
+    const results: TurnResult[] = [];
+    for (const { turnIndex, userMessage, expected } of this.expectedTurns(testCase)) {
+      const actual = replies[turnIndex] ?? '';
+      const similarity = lexicalSimilarity(expected, actual);
+
+      if (!actual) {
+        results.push({ turnIndex, userMessage, expected, actual, similarity, score: 0, passed: false, reasoning: 'No agent reply for this turn' });
+        continue;
+      }
+
+      if (options.useLLM) {
+        try {
+          const check = await llmClient.compareTurn({ userMessage, expected, actual, businessContext: options.businessContext });
+          results.push({
+            turnIndex,
+            userMessage,
+            expected,
+            actual,
+            similarity,
+            llmScore: check.score,
+            score: check.score,
+            passed: check.score >= PASS_THRESHOLD,
+            reasoning: check.reasoning,
+          });
+          continue;
+        } catch (error) {
+          console.error(`  ⚠️ LLM turn check failed for turn ${turnIndex + 1}, using lexical similarity:`, (error as Error).message);
+        }
+      }
+
+      results.push({
+        turnIndex,
+        userMessage,
+        expected,
+        actual,
+        similarity,
+        score: similarity,
+        passed: similarity >= LEXICAL_TURN_THRESHOLD,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * One-line summary pointing at the first turn that diverged, if any
+   */
+  summarize(results: TurnResult[]): string | null {
+    if (results.length === 0) return null;
+    const matched = results.filter(r => r.passed).length;
+    const firstMiss = results.find(r => !r.passed);
+    return firstMiss
+      ? `Turn check: ${matched}/${results.length} turns matched the expected replies; first divergence at turn ${firstMiss.turnIndex + 1} (score ${(firstMiss.score * 100).toFixed(0)}%).`
+      : `Turn check: all ${results.length} turns matched the expected replies.`;
+  }
+}
+
+export const turnComparator = new TurnComparator();
@@ -0,0 +1,27 @@
+import { KnowledgeBase } from '../types/index.js';
+
+// Dental clinic knowledge base shared by the fact, booking and function evaluator tests
+export const DENTAL_KNOWLEDGE_BASE: KnowledgeBase = {
+  agentId: 'test-agent',
+  services: [
+    { name: 'Routine Dental Cleaning', aliases: ['cleaning'], priceMin: 99, priceMax: 99 },
+    { name: 'Dental Filling', aliases: ['filling'], priceMin: 150, priceMax: 300 },
+    { name: 'Orthodontic Consultation', priceMin: 0, priceMax: 0 },
+  ],
+  weeklySchedule: [
+    { day: 'monday', closed: false, open: '09:00', close: '17:00' },
+    { day: 'tuesday', closed: false, open: '09:00', close: '17:00' },
+    { day: 'wednesday', closed: false, open: '09:00', close: '17:00' },
+    { day: 'thursday', closed: false, open: '09:00', close: '17:00' },
+    { day: 'friday', closed: false, open: '09:00', close: '17:00' },
+    { day: 'saturday', closed: false, open: '08:30', close: '12:00' },
+    { day: 'sunday', closed: true },
+  ],
+  holidays: [
+    { date: '2025-12-25', name: 'Christmas', recurring: true },
+    { date: '2025-07-04', name: 'Independence Day', recurring: false },
+  ],
+  policies: [],
+  faqs: [],
+  version: 1,
+};
@@ -26,6 +26,24 @@ export enum EvaluatorType {
   KEYWORD = 'keyword',
   LLM = 'llm',
   FUNCTION = 'function',
+  SENTIMENT = 'sentiment',
+  TONE = 'tone',
+  ACTION = 'action',
+}
+
+export enum Sentiment {
+  POSITIVE = 'positive',
+  NEUTRAL = 'neutral',
+  NEGATIVE = 'negative',
+}
+
+export enum ToneTrait {
+  POLITE = 'polite',
+  APOLOGETIC = 'apologetic',
+  EMPATHETIC = 'empathetic',
+  FORMAL = 'formal',
+  CASUAL = 'casual',
+  RUDE = 'rude',
 }
 
 export enum TestSuiteStatus {
@@ -58,6 +76,76 @@ export enum Priority {
   LOW = 'low',
 }
 
+export enum ReviewStatus {
+  PENDING = 'pending',
+  OVERRIDDEN = 'overridden',
+  DISMISSED = 'dismissed',
+}
+
+export enum ReviewReason {
+  LOW_CONFIDENCE = 'low-confidence',
+  FAILED_REQUIRED = 'failed-required',
+  RUN_DISAGREEMENT = 'run-disagreement',
+}
+
+export enum ComplianceSeverity {
+  CRITICAL = 'critical',
+  MAJOR = 'major',
+  MINOR = 'minor',
+}
+
+export enum FactKind {
+  PRICE = 'price',
+  HOURS = 'hours',
+  DAY = 'day',
+  SERVICE = 'service',
+}
+
+export enum SlotKind {
+  EMAIL = 'email',
+  PHONE = 'phone',
+  NAME = 'name',
+  DATE = 'date',
+  TIME = 'time',
+  SERVICE = 'service',
+  OTHER = 'other',
+}
+
+export enum SlotStatus {
+  CONFIRMED = 'confirmed', // Supplied and read back
+  UNCONFIRMED = 'unconfirmed', // Supplied but never read back
+  UNANSWERED = 'unanswered', // Asked for, but the caller never gave it
+  MISSING = 'missing', // Never asked for nor given
+}
+
+export enum AgentActionType {
+  BOOK_APPOINTMENT = 'book_appointment',
+  TRANSFER_CALL = 'transfer_call',
+  SEND_SMS = 'send_sms',
+}
+
+export enum JobPhase {
+  QUEUED = 'queued',
+  TESTING = 'testing',
+  INITIAL_TESTS = 'initial-tests',
+  OPTIMIZING = 'optimizing',
+  RETESTING = 'retesting',
+  FINAL_TESTS = 'final-tests',
+  DONE = 'done',
+}
+
+export enum JobEventType {
+  PROGRESS = 'progress',
+  TEST_STARTED = 'test-started',
+  TURN_COMPLETED = 'turn-completed',
+  EVALUATION_SCORED = 'evaluation-scored',
+  PROMPT_CANDIDATE = 'prompt-candidate',
+  ITERATION_FINISHED = 'iteration-finished',
+  JOB_COMPLETED = 'job-completed',
+  JOB_FAILED = 'job-failed',
+  JOB_CANCELLED = 'job-cancelled',
+}
+
 
 // ============================================
 // Conversation Types
@@ -66,7 +154,7 @@ export enum Priority {
 export interface ConversationTurn {
   role: 'user' | 'expected-agent' | 'actual-agent';
   content: string;
-  timing?: number; // Simulated delay in ms
+  timing?: number; // User turns: barge in this many ms after the agent started its previous reply
   metadata?: Record<string, unknown>;
 }
 
@@ -94,7 +182,7 @@ export interface LLMEvaluatorConfig {
   type: EvaluatorType.LLM;
   config: {
     prompt: string;
-    threshold: number;
+    threshold?: number; // Defaults to JUDGE_PASS_THRESHOLD when the criterion is evaluated
   };
 }
 
@@ -106,11 +194,44 @@ export interface FunctionEvaluatorConfig {
   };
 }
 
+export interface SentimentEvaluatorConfig {
+  type: EvaluatorType.SENTIMENT;
+  config: {
+    allowed: Sentiment[]; // Pass when the agent's overall sentiment is one of these
+    llmFallback?: boolean; // Ask the LLM judge when the local classifier is unsure (default true)
+  };
+}
+
+export interface ToneEvaluatorConfig {
+  type: EvaluatorType.TONE;
+  config: {
+    required?: ToneTrait[];
+    forbidden?: ToneTrait[];
+    llmFallback?: boolean; // Ask the LLM judge when the local classifier is unsure (default true)
+  };
+}
+
+export interface ActionExpectation {
+  type: AgentActionType;
+  args?: Record<string, string | number | boolean>; // Only the listed args are compared, strings case-insensitively
+}
+
+export interface ActionEvaluatorConfig {
+  type: EvaluatorType.ACTION;
+  config: {
+    expected?: ActionExpectation[]; // Each must match at least one action the agent took
+    forbidden?: ActionExpectation[]; // None may match
+  };
+}
+
 export type EvaluatorConfig = 
   | RegexEvaluatorConfig 
   | KeywordEvaluatorConfig 
   | LLMEvaluatorConfig 
-  | FunctionEvaluatorConfig;
+  | FunctionEvaluatorConfig
+  | SentimentEvaluatorConfig
+  | ToneEvaluatorConfig
+  | ActionEvaluatorConfig;
 
 export interface SuccessCriteria {
   id: string;
@@ -149,6 +270,7 @@ export interface TestSuite {
   description: string;
   testCases: TestCase[];
   globalCriteria: SuccessCriteria[];
+  dataToCollect: string[]; // Slots the agent should collect, from prompt analysis
   createdAt: Date;
   updatedAt: Date;
   version: number;
@@ -175,6 +297,7 @@ export interface CriteriaResult {
   passed: boolean;
   score: number;
   reasoning: string;
+  confidence?: number; // 1 for deterministic evaluators, judge agreement for LLM ones; absent for a single judge sample
 }
 
 export interface Evaluation {
@@ -185,7 +308,138 @@ export interface Evaluation {
   overallScore: number;
   reasoning: string;
   confidence: number;
+  needsReview?: boolean; // Confidence too low to trust the verdict without a human
+  overridden?: boolean; // Verdict comes from a human reviewer, not the judge
+  stability?: TestStability; // Present when the test was run more than once
+  voiceMetrics?: VoiceTurnMetrics[]; // One entry per agent reply
+  factViolations?: FactViolation[]; // Claims that contradict the knowledge base
+  slots?: SlotResult[]; // Present when the test has an information-collected criterion
+  actions?: AgentAction[]; // Tool calls the agent made, in order
+  compliance?: ComplianceReport; // Scored separately from overallScore
+  turnLatencies?: number[]; // Response time (ms) of each agent reply
+  latency?: LatencyStats;
   conversation?: { role: 'user' | 'assistant'; content: string }[];
+  globalCriteriaResults?: CriteriaResult[]; // Suite-wide criteria, reported apart from the case's own
+  turnResults?: TurnResult[];
+}
+
+export interface TurnResult {
+  turnIndex: number; // Index of the user turn the reply answers (0-based)
+  userMessage: string;
+  expected: string;
+  actual: string;
+  similarity: number; // Local lexical similarity (0-1)
+  llmScore?: number; // Present when the LLM turn check ran
+  score: number;
+  passed: boolean;
+  reasoning?: string;
+}
+
+export interface FactViolation {
+  turnIndex: number; // Index of the agent reply (0-based)
+  kind: FactKind;
+  claim: string; // The agent's words, as quoted
+  expected: string; // What the knowledge base says
+  message: string;
+}
+
+export interface AgentAction {
+  turnIndex: number; // Index of the agent reply that made the call (0-based)
+  type: AgentActionType;
+  args: Record<string, unknown>; // e.g. { date: '2025-03-10', time: '14:00', service: 'Teeth Cleaning' }
+}
+
+export interface SlotResult {
+  slot: string; // As named in dataToCollect, e.g. "preferred date"
+  kind: SlotKind;
+  status: SlotStatus;
+  requested: boolean; // Agent asked for it
+  supplied: boolean; // Caller gave a value
+  confirmed: boolean; // Agent read the value back afterwards
+  value?: string;
+}
+
+export interface ComplianceFinding {
+  requirement: string;
+  ruleId: string;
+  severity: ComplianceSeverity;
+  turnIndex?: number; // Agent reply (0-based); absent for conversation-level findings like a missing disclosure
+  message: string;
+}
+
+export interface ComplianceRequirementResult {
+  requirement: string;
+  score: number; // 1 - severity-weighted share of rules violated
+  rulesChecked: number;
+  findings: ComplianceFinding[];
+}
+
+export interface ComplianceReport {
+  score: number; // Mean over requirements
+  requirements: ComplianceRequirementResult[];
+}
+
+export interface ComplianceSummary {
+  score: number; // Mean over evaluated tests
+  requirements: Array<{
+    requirement: string;
+    score: number;
+    violations: number;
+    violatingTestCaseIds: string[];
+  }>;
+}
+
+export interface LatencyStats {
+  samples: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface TestStability {
+  runs: number;
+  passProbability: number;
+  scoreMean: number;
+  scoreVariance: number;
+  flaky: boolean;
+}
+
+export interface GlobalCriterionSummary {
+  criterionId: string;
+  name: string;
+  required: boolean;
+  passRate: number;
+  violations: number;
+  violatingTestCaseIds: string[];
+}
+
+// How a run judges its tests; saved with the run so a resumed run judges the rest the same way
+export interface ExecutionRunOptions {
+  llmTurnCheck?: boolean;
+  judgeSamples?: number;
+  repeat?: number;
+  flakyThreshold?: number;
+}
+
+export interface ExecutionOptions {
+  suiteId?: string; // Runs are saved to the execution history when set
+  globalCriteria?: SuccessCriteria[]; // Applied to every test case
+  dataToCollect?: string[]; // The suite's slots, checked by information-collected criteria
+  llmTurnCheck?: boolean; // Also judge each reply against its expected turn with the LLM
+  judgeSamples?: number; // LLM judgments per criterion, aggregated by majority vote
+  repeat?: number; // Runs per test case, to measure flakiness
+  flakyThreshold?: number; // Minority-outcome share at which a repeated test counts as flaky
+  onProgress?: (progress: JobProgress) => void; // Called after each test case
+  onEvent?: (event: JobEventPayload) => void; // Tests, turns, scores and prompt candidates as they happen
+  shouldCancel?: () => Promise<boolean>; // Checked between turns; true stops the run with partial results
+  jobId?: string; // Queue job running this; when BullMQ retries the job, the run continues from its checkpoint
+  jobStep?: string; // Tells apart the runs of one job (defaults to testing)
+}
+
+export interface OptimizeOptions extends ExecutionOptions {
+  targetScore?: number; // Stop iterating once the score reaches this
+  originalPrompt?: string; // Prompt the job first saw; a retry after a crash puts it back before starting over
 }
 
 export interface ExecutionResult {
@@ -193,14 +447,60 @@ export interface ExecutionResult {
   suiteId: string;
   agentId: string;
   responses: TestResponse[];
-  evaluations: Evaluation[];
-  duration: number;
+  evaluations: Evaluation[]; // Checkpointed as each test case finishes
+  promptHash: string; // sha256 of the system prompt the run used
+  options?: ExecutionRunOptions;
+  jobId?: string; // Queue job that ran it; a retry of the job continues this record
+  jobStep?: string; // Which of the job's runs this is, e.g. initial-tests or retesting-2
+  passRate?: number; // Set when the run completes
+  overallScore?: number;
+  duration: number; // ms
   status: ExecutionStatus;
   startedAt: Date;
   completedAt?: Date;
   error?: string;
 }
 
+// ============================================
+// Evaluation Types
+// ============================================
+
+export interface EvaluationContext {
+  testCase: TestCase;
+  conversation: Array<{ role: 'user' | 'assistant'; content: string }>;
+  businessContext: BusinessContext;
+  voiceSettings?: VoiceSettings;
+  latencies?: number[]; // Response time (ms) of each agent reply
+  dataToCollect?: string[]; // The suite's slots, used when a criterion doesn't list its own
+  actions?: AgentAction[]; // Tool calls the agent made during the conversation
+}
+
+export interface VoiceTurnMetrics {
+  turnIndex: number; // Index of the agent reply in the conversation (0-based)
+  wordCount: number;
+  spokenSeconds: number; // Estimated at the agent's voice speed
+  sentenceCount: number;
+  avgSentenceWords: number;
+  maxSentenceWords: number;
+  markdownCount: number; // Headings, emphasis, links, code
+  bulletCount: number;
+  emojiCount: number;
+  urlCount: number;
+  unreadableNumbers: string[]; // Numbers TTS is likely to mangle
+  issues: string[];
+  score: number; // 1 = ideal for speech
+}
+
+export interface VoiceMetricsSummary {
+  turns: number;
+  averageSpokenSeconds: number;
+  maxSpokenSeconds: number;
+  averageSentenceWords: number;
+  turnsWithFormatting: number; // Markdown, bullets, emoji or URLs
+  unreadableNumbers: number;
+  score: number;
+}
+
 // ============================================
 // Analysis Types
 // ============================================
@@ -250,6 +550,29 @@ export interface PerformanceMetrics {
   avgResponseLatency: number;
 }
 
+export interface ScoreInterval {
+  mean: number;
+  low: number; // Bootstrap confidence bounds
+  high: number;
+}
+
+export interface SignificanceReport {
+  pairedTests: number;
+  confidenceLevel: number;
+  before: ScoreInterval;
+  after: ScoreInterval;
+  difference: ScoreInterval; // Paired after - before
+  mcnemar: {
+    improved: number; // fail -> pass
+    regressed: number; // pass -> fail
+    pValue: number; // Exact two-sided
+  };
+  alpha: number;
+  minScoreDelta: number; // The difference CI's lower bound must reach this
+  significant: boolean;
+  summary: string;
+}
+
 export interface OptimizationRecord {
   id: string;
   agentId: string;
@@ -280,6 +603,14 @@ export interface BusinessContext {
   useCase?: string;
   targetAudience?: string;
   complianceRequirements?: string[];
+  compliance?: ComplianceSettings[]; // Per-requirement configuration
+  knowledgeBase?: KnowledgeBase;
+}
+
+export interface ComplianceSettings {
+  requirement: string; // e.g. HIPAA
+  disabledRules?: string[];
+  disclosures?: string[]; // Phrases the agent must say at some point in the call
 }
 
 export interface AgentConfig {
@@ -291,6 +622,164 @@ export interface AgentConfig {
 }
 
 
+// ============================================
+// Knowledge Base Types
+// ============================================
+
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+export interface ServiceOffering {
+  name: string;
+  description?: string;
+  aliases?: string[];
+  priceMin?: number; // Omitted = price on request, 0 = free
+  priceMax?: number;
+  currency?: string; // ISO 4217, defaults to USD
+  durationMinutes?: number;
+}
+
+export interface ScheduleEntry {
+  day: Weekday;
+  closed: boolean;
+  open?: string; // HH:mm, 24h
+  close?: string; // HH:mm, 24h
+}
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  recurring: boolean; // Same month/day every year
+}
+
+export interface Policy {
+  title: string;
+  description: string;
+}
+
+export interface FAQ {
+  question: string;
+  answer: string;
+}
+
+export interface KnowledgeBase {
+  agentId: string;
+  businessName?: string;
+  timezone?: string;
+  services: ServiceOffering[];
+  weeklySchedule: ScheduleEntry[];
+  holidays: Holiday[];
+  policies: Policy[];
+  faqs: FAQ[];
+  version: number;
+  updatedAt?: Date;
+}
+
+
+// ============================================
+// Calibration Types
+// ============================================
+
+export interface JudgeMetricScores {
+  relevance: number;
+  accuracy: number;
+  completeness: number;
+  helpfulness: number;
+}
+
+export interface GoldLabel {
+  id: string;
+  agentId?: string; // Omit for labels that apply to any agent
+  name: string;
+  conversation: Array<{ role: 'user' | 'assistant'; content: string }>;
+  criterion?: { name: string; description: string; prompt?: string }; // Defaults to overall quality
+  humanPassed: boolean;
+  humanScore?: number; // 0-1
+  humanMetrics?: Partial<JudgeMetricScores>;
+  labeledBy?: string;
+  notes?: string;
+  tags: string[];
+  createdAt?: Date;
+}
+
+export interface ConfusionMatrix {
+  // "Positive" is a failure: calibration is about catching bad conversations
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface ThresholdSweepPoint {
+  threshold: number;
+  accuracy: number;
+  kappa: number;
+}
+
+export interface CalibrationReport {
+  sampleSize: number;
+  threshold: number;
+  accuracy: number;
+  precisionOnFailures: number;
+  recallOnFailures: number;
+  kappa: number;
+  confusion: ConfusionMatrix;
+  // Mean judge minus human score; positive means the judge is more lenient
+  bias: Partial<Record<keyof JudgeMetricScores | 'overall', { meanDifference: number; samples: number }>>;
+  thresholdSweep: ThresholdSweepPoint[];
+  recommendedThreshold: number;
+  disagreements: Array<{
+    goldLabelId: string;
+    name: string;
+    humanPassed: boolean;
+    judgeScore: number;
+    judgeReasoning: string;
+  }>;
+  errors: Array<{ goldLabelId: string; error: string }>;
+  ranAt: Date;
+}
+
+// ============================================
+// Review Types
+// ============================================
+
+export interface ReviewOverride {
+  passed: boolean;
+  overallScore: number;
+  note: string;
+  reviewer: string;
+  reviewedAt: Date;
+}
+
+export interface ReviewItem {
+  id: string;
+  agentId: string;
+  suiteId: string;
+  testCaseId: string;
+  testCaseName: string;
+  conversationHash: string; // Same test + same conversation = same review
+  conversation: Array<{ role: 'user' | 'assistant'; content: string }>;
+  reasons: ReviewReason[];
+  status: ReviewStatus;
+  judgeVerdict: {
+    passed: boolean;
+    overallScore: number;
+    confidence: number;
+    reasoning: string;
+    criteriaResults: CriteriaResult[];
+  };
+  override?: ReviewOverride;
+  goldLabelId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
 // ============================================
 // API Types
 // ============================================
@@ -329,15 +818,38 @@ export interface OptimizeResponse {
   jobId: string;
 }
 
+export interface JobProgress {
+  phase: JobPhase;
+  percent: number; // 0-100 across the whole job
+}
+
 export interface JobStatusResponse {
   id: string;
   status: string;
   progress: number;
-  phase?: string;
+  phase?: JobPhase;
   result?: unknown;
   error?: string;
 }
 
+// What a job reports while it runs, streamed to clients over SSE
+export type JobEventPayload =
+  | { type: JobEventType.PROGRESS; phase: JobPhase; percent: number }
+  | { type: JobEventType.TEST_STARTED; testCaseId: string; testCaseName: string; run: number; runs: number }
+  | { type: JobEventType.TURN_COMPLETED; testCaseId: string; turnIndex: number; userMessage: string; agentResponse: string; latencyMs: number }
+  | { type: JobEventType.EVALUATION_SCORED; testCaseId: string; testCaseName: string; passed: boolean; score: number; flaky?: boolean }
+  | { type: JobEventType.PROMPT_CANDIDATE; iteration: number; prompt: string; changes: PromptChange[] }
+  | { type: JobEventType.ITERATION_FINISHED; iteration: number; maxIterations: number; score: number; bestScore: number; improved: boolean }
+  | { type: JobEventType.JOB_COMPLETED; result?: unknown }
+  | { type: JobEventType.JOB_FAILED; error: string }
+  | { type: JobEventType.JOB_CANCELLED; result?: unknown };
+
+export type JobEvent = JobEventPayload & {
+  jobId: string;
+  seq: number; // Increases by one per event within a job; also the SSE event id
+  timestamp: string;
+};
+
 // ============================================
 // Validation Helpers
 // ============================================
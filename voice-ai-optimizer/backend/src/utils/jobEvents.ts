@@ -0,0 +1,108 @@
+import IORedis from 'ioredis';
+import { config } from '../config/index.js';
+import { JobEvent, JobEventPayload, JobEventType } from '../types/index.js';
+
+// Events are published over Redis so SSE clients see them whichever process runs the job,
+// and kept in a list so a client that connects late (or reconnects) can catch up
+const publisher = new IORedis(config.REDIS_URL, { maxRetriesPerRequest: null });
+// A subscribed connection can't run other commands, so it gets its own
+const subscriber = new IORedis(config.REDIS_URL, { maxRetriesPerRequest: null });
+
+const JOB_EVENTS_TTL_SECONDS = 24 * 60 * 60;
+const MAX_JOB_EVENTS = 2000; // Replay keeps the most recent events
+
+const channelKey = (jobId: string) => `job-events:${jobId}`;
+const historyKey = (jobId: string) => `job-events:${jobId}:history`;
+const seqKey = (jobId: string) => `job-events:${jobId}:seq`;
+
+const listeners = new Map<string, Set<(event: JobEvent) => void>>();
+
+subscriber.on('message', (channel: string, message: string) => {
+  const channelListeners = listeners.get(channel);
+  if (!channelListeners) return;
+  const event = JSON.parse(message) as JobEvent;
+  channelListeners.forEach(listener => listener(event));
+});
+
+export function isTerminalEvent(event: JobEvent): boolean {
+  return event.type === JobEventType.JOB_COMPLETED
+    || event.type === JobEventType.JOB_FAILED
+    || event.type === JobEventType.JOB_CANCELLED;
+}
+
+/**
+ * Publish a job event; failures are logged, never thrown, so streaming can't break a run
+ */
+export async function publishJobEvent(jobId: string, payload: JobEventPayload): Promise<void> {
+  try {
+    const seq = await publisher.incr(seqKey(jobId));
+    const event: JobEvent = { ...payload, jobId, seq, timestamp: new Date().toISOString() };
+    const message = JSON.stringify(event);
+
+    await publisher
+      .multi()
+      .rpush(historyKey(jobId), message)
+      .ltrim(historyKey(jobId), -MAX_JOB_EVENTS, -1)
+      .expire(historyKey(jobId), JOB_EVENTS_TTL_SECONDS)
+      .expire(seqKey(jobId), JOB_EVENTS_TTL_SECONDS)
+      .publish(channelKey(jobId), message)
+      .exec();
+  } catch (error) {
+    console.error(`❌ Failed to publish ${payload.type} event for job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Replay a job's stored events after afterSeq, then deliver live ones, in order and without repeats.
+ * Returns an unsubscribe function.
+ */
+export async function followJobEvents(
+  jobId: string,
+  afterSeq: number,
+  onEvent: (event: JobEvent) => void
+): Promise<() => Promise<void>> {
+  const channel = channelKey(jobId);
+  let lastSeq = afterSeq;
+  let replaying = true;
+  const buffered: JobEvent[] = [];
+
+  const deliver = (event: JobEvent) => {
+    if (event.seq <= lastSeq) return;
+    lastSeq = event.seq;
+    onEvent(event);
+  };
+  // Live events that arrive while the history is loading wait until it has been sent
+  const listener = (event: JobEvent) => (replaying ? buffered.push(event) : deliver(event));
+
+  if (!listeners.has(channel)) {
+    listeners.set(channel, new Set());
+    await subscriber.subscribe(channel);
+  }
+  listeners.get(channel)!.add(listener);
+
+  const unsubscribe = async () => {
+    const channelListeners = listeners.get(channel);
+    if (!channelListeners?.delete(listener) || channelListeners.size > 0) return;
+    listeners.delete(channel);
+    await subscriber.unsubscribe(channel);
+  };
+
+  try {
+    const history = await publisher.lrange(historyKey(jobId), 0, -1);
+    history.map(message => JSON.parse(message) as JobEvent).forEach(deliver);
+  } catch (error) {
+    await unsubscribe();
+    throw error;
+  }
+  replaying = false;
+  buffered.splice(0).forEach(deliver);
+
+  return unsubscribe;
+}
+
+// Cleanup function
+export async function closeJobEvents(): Promise<void> {
+  await subscriber.quit();
+  await publisher.quit();
+  console.log('📦 Job event connections closed');
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { findBookingConflicts, knowledgeBaseFromLegacy } from './knowledgeBase.js';
+import { AgentAction, AgentActionType } from '../types/index.js';
+import { DENTAL_KNOWLEDGE_BASE as knowledgeBase } from '../test/fixtures.js';
+
+const booking = (args: Record<string, unknown>, turnIndex = 0): AgentAction => ({
+  turnIndex,
+  type: AgentActionType.BOOK_APPOINTMENT,
+  args,
+});
+
+const conflicts = (...actions: AgentAction[]) => findBookingConflicts(knowledgeBase, actions).map(c => c.message);
+
+describe('findBookingConflicts', () => {
+  it('accepts bookings during opening hours', () => {
+    expect(conflicts(
+      booking({ date: '2025-03-10', time: '09:00' }),
+      booking({ day: 'Saturday', time: '11:30' })
+    )).toEqual([]);
+  });
+
+  it('flags holidays, recurring ones in any year', () => {
+    expect(conflicts(booking({ date: '2026-12-25', time: '10:00' }))).toEqual([
+      'Booked an appointment, but 2026-12-25 is Christmas, when the business is closed',
+    ]);
+    expect(conflicts(booking({ date: '2025-07-04' }))).toHaveLength(1);
+    expect(conflicts(booking({ date: '2026-07-06' }))).toEqual([]);
+  });
+
+  it('flags closed days by date or weekday name', () => {
+    expect(conflicts(booking({ date: '2025-03-09' }), booking({ day: 'sunday' }, 2))).toEqual([
+      'Booked an appointment, but the business is closed on Sunday',
+      'Booked an appointment, but the business is closed on Sunday',
+    ]);
+  });
+
+  it('flags times outside the day hours, closing time included', () => {
+    expect(conflicts(booking({ day: 'saturday', time: '12:00' }))).toEqual([
+      'Booked an appointment, but 12:00 PM is outside Saturday hours (8:30 AM-12:00 PM)',
+    ]);
+    expect(conflicts(booking({ date: '2025-03-10', time: '08:59' }))).toHaveLength(1);
+  });
+
+  it('reads the weekday of a date in UTC', () => {
+    // 2025-03-08 is a Saturday wherever the tests run
+    expect(conflicts(booking({ date: '2025-03-08', time: '14:00' }))).toEqual([
+      'Booked an appointment, but 2:00 PM is outside Saturday hours (8:30 AM-12:00 PM)',
+    ]);
+  });
+
+  it('ignores other actions and bookings it cannot place', () => {
+    expect(conflicts(
+      { turnIndex: 0, type: AgentActionType.TRANSFER_CALL, args: { day: 'sunday' } },
+      booking({ date: 'next Sunday', time: '2pm' })
+    )).toEqual([]);
+  });
+
+  it('keeps the turn of the offending booking', () => {
+    expect(findBookingConflicts(knowledgeBase, [booking({ day: 'sunday' }, 3)])[0].turnIndex).toBe(3);
+  });
+});
+
+describe('knowledgeBaseFromLegacy', () => {
+  it('reads the free-text services and hours agents stored before knowledge bases', () => {
+    const knowledgeBase = knowledgeBaseFromLegacy({
+      services: ['AC Repair ($150-$1,200)', 'Duct Cleaning ($99)', 'Estimates (Free)', 'Emergency Callout'],
+      workingHours: 'Mon-Fri 8AM-6PM, Sat 9:30am-2pm, Sun CLOSED',
+    });
+    expect(knowledgeBase.services).toEqual([
+      { name: 'AC Repair', priceMin: 150, priceMax: 1200 },
+      { name: 'Duct Cleaning', priceMin: 99, priceMax: 99 },
+      { name: 'Estimates', priceMin: 0, priceMax: 0 },
+      { name: 'Emergency Callout' },
+    ]);
+    expect(knowledgeBase.weeklySchedule).toHaveLength(7);
+    expect(knowledgeBase.weeklySchedule[0]).toEqual({ day: 'monday', closed: false, open: '08:00', close: '18:00' });
+    expect(knowledgeBase.weeklySchedule[5]).toEqual({ day: 'saturday', closed: false, open: '09:30', close: '14:00' });
+    expect(knowledgeBase.weeklySchedule[6]).toEqual({ day: 'sunday', closed: true });
+    expect(knowledgeBase.policies).toEqual([]);
+  });
+
+  it('keeps hours it cannot parse as a policy instead of guessing', () => {
+    const knowledgeBase = knowledgeBaseFromLegacy({ workingHours: 'Weekdays by appointment' });
+    expect(knowledgeBase.weeklySchedule).toEqual([]);
+    expect(knowledgeBase.policies).toEqual([{ title: 'Working hours', description: 'Weekdays by appointment' }]);
+  });
+
+  it('drops duplicate service names', () => {
+    expect(knowledgeBaseFromLegacy({ services: ['Cleaning ($99)', 'cleaning ($120)'] }).services).toHaveLength(1);
+  });
+});
@@ -0,0 +1,222 @@
+import { KnowledgeBase, ServiceOffering, ScheduleEntry, Weekday, AgentAction, AgentActionType } from '../types/index.js';
+
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Format an amount in the service's currency ("$99", "120 EUR")
+ */
+export function formatAmount(amount: number, currency: string = 'USD'): string {
+  const value = Number.isInteger(amount) ? String(amount) : amount.toFixed(2);
+  return currency === 'USD' ? `$${value}` : `${value} ${currency}`;
+}
+
+/**
+ * Format a service's price or price range for prompts ("$150-$300", "Free")
+ */
+export function formatPrice(service: ServiceOffering): string {
+  if (service.priceMin === undefined) return 'price on request';
+  const max = service.priceMax ?? service.priceMin;
+  if (service.priceMin === 0 && max === 0) return 'Free';
+  if (service.priceMin === max) return formatAmount(max, service.currency);
+  return `${formatAmount(service.priceMin, service.currency)}-${formatAmount(max, service.currency)}`;
+}
+
+/**
+ * Convert 24h "HH:mm" to a spoken-style time ("08:00" -> "8:00 AM")
+ */
+export function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
+
+/**
+ * Format a weekly schedule in Monday-first order
+ */
+export function formatWeeklySchedule(schedule: ScheduleEntry[]): string {
+  return WEEKDAYS
+    .map(day => schedule.find(entry => entry.day === day))
+    .filter((entry): entry is ScheduleEntry => Boolean(entry))
+    .map(entry => entry.closed || !entry.open || !entry.close
+      ? `${capitalize(entry.day)} CLOSED`
+      : `${capitalize(entry.day)} ${formatTime(entry.open)}-${formatTime(entry.close)}`)
+    .join(', ');
+}
+
+/**
+ * Render a knowledge base as prompt lines
+ */
+export function formatKnowledgeBase(knowledgeBase: KnowledgeBase): string[] {
+  const lines: string[] = [];
+
+  if (knowledgeBase.businessName) {
+    lines.push(`- Business: ${knowledgeBase.businessName}`);
+  }
+  if (knowledgeBase.services.length > 0) {
+    lines.push('- Services:');
+    for (const service of knowledgeBase.services) {
+      const duration = service.durationMinutes ? `, ${service.durationMinutes} min` : '';
+      const description = service.description ? ` - ${service.description}` : '';
+      lines.push(`  * ${service.name} (${formatPrice(service)}${duration})${description}`);
+    }
+  }
+  if (knowledgeBase.weeklySchedule.length > 0) {
+    lines.push(`- Hours: ${formatWeeklySchedule(knowledgeBase.weeklySchedule)}${knowledgeBase.timezone ? ` (${knowledgeBase.timezone})` : ''}`);
+  }
+  if (knowledgeBase.holidays.length > 0) {
+    const holidays = knowledgeBase.holidays.map(h => `${h.name} (${h.recurring ? h.date.slice(5) : h.date})`);
+    lines.push(`- Closed on holidays: ${holidays.join(', ')}`);
+  }
+  if (knowledgeBase.policies.length > 0) {
+    lines.push('- Policies:');
+    for (const policy of knowledgeBase.policies) {
+      lines.push(`  * ${policy.title}: ${policy.description}`);
+    }
+  }
+  if (knowledgeBase.faqs.length > 0) {
+    lines.push('- FAQs:');
+    for (const faq of knowledgeBase.faqs) {
+      lines.push(`  * Q: ${faq.question} A: ${faq.answer}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Why the business can't take a booking on this date/day and time; undefined when it can or we can't tell
+ */
+function bookingConflict(
+  knowledgeBase: KnowledgeBase,
+  booking: { date?: string; day?: string; time?: string }
+): string | undefined {
+  const isoDate = /^\d{4}-\d{2}-\d{2}$/.test(booking.date || '') ? booking.date! : undefined;
+  if (isoDate) {
+    const holiday = knowledgeBase.holidays.find(h =>
+      h.recurring ? h.date.slice(5) === isoDate.slice(5) : h.date === isoDate
+    );
+    if (holiday) return `${isoDate} is ${holiday.name}, when the business is closed`;
+  }
+
+  // Dates are calendar dates, so read the weekday in UTC to avoid shifting a day
+  const day = isoDate
+    ? WEEKDAYS[(new Date(`${isoDate}T00:00:00Z`).getUTCDay() + 6) % 7]
+    : WEEKDAYS.find(d => d === booking.day?.toLowerCase());
+  if (!day || knowledgeBase.weeklySchedule.length === 0) return undefined;
+
+  const entry = knowledgeBase.weeklySchedule.find(e => e.day === day);
+  if (!entry || entry.closed || !entry.open || !entry.close) {
+    return `The business is closed on ${capitalize(day)}`;
+  }
+  const time = /^\d{2}:\d{2}$/.test(booking.time || '') ? booking.time! : undefined;
+  if (time && (time < entry.open || time >= entry.close)) {
+    return `${formatTime(time)} is outside ${capitalize(day)} hours (${formatTime(entry.open)}-${formatTime(entry.close)})`;
+  }
+  return undefined;
+}
+
+/**
+ * Appointments the agent booked when the business is closed
+ */
+export function findBookingConflicts(
+  knowledgeBase: KnowledgeBase,
+  actions: AgentAction[]
+): Array<{ turnIndex: number; message: string }> {
+  return actions
+    .filter(action => action.type === AgentActionType.BOOK_APPOINTMENT)
+    .flatMap(action => {
+      const { date, day, time } = action.args;
+      const message = bookingConflict(knowledgeBase, {
+        date: typeof date === 'string' ? date : undefined,
+        day: typeof day === 'string' ? day : undefined,
+        time: typeof time === 'string' ? time : undefined,
+      });
+      return message ? [{ turnIndex: action.turnIndex, message: `Booked an appointment, but ${message.charAt(0).toLowerCase()}${message.slice(1)}` }] : [];
+    });
+}
+
+export interface LegacyBusinessFacts {
+  services?: string[]; // e.g. "Dental Fillings ($150-$300)", "Orthodontic Consultations (Free)"
+  workingHours?: string; // e.g. "Mon-Fri 8AM-6PM, Sat 9AM-2PM, Sun CLOSED"
+}
+
+const LEGACY_SERVICE = /^(.*?)\s*\(([^)]*)\)\s*$/;
+const LEGACY_PRICE = /^\$?\s*([\d,]+(?:\.\d+)?)(?:\s*(?:-|to)\s*\$?\s*([\d,]+(?:\.\d+)?))?$/i;
+const LEGACY_HOURS = /^([a-z]+)(?:\s*-\s*([a-z]+))?:?\s+(closed|(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*-\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?)$/i;
+
+const parseAmount = (value: string): number => Number(value.replace(/,/g, ''));
+
+function parseLegacyService(text: string): ServiceOffering {
+  const match = text.trim().match(LEGACY_SERVICE);
+  if (!match) return { name: text.trim() };
+
+  const [, name, price] = match;
+  if (/^free$/i.test(price.trim())) return { name, priceMin: 0, priceMax: 0 };
+  const amounts = price.trim().match(LEGACY_PRICE);
+  if (!amounts) return { name, description: price.trim() };
+  const priceMin = parseAmount(amounts[1]);
+  return { name, priceMin, priceMax: amounts[2] ? parseAmount(amounts[2]) : priceMin };
+}
+
+function legacyTime(hours: string, minutes: string | undefined, meridiem: string | undefined): string | undefined {
+  let hour = Number(hours);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = hour % 12 + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  if (hour > 23) return undefined;
+  return `${String(hour).padStart(2, '0')}:${minutes ?? '00'}`;
+}
+
+/**
+ * Parse free-text hours into a schedule; undefined when any part can't be read, so no day is guessed
+ */
+function parseLegacyWorkingHours(text: string): ScheduleEntry[] | undefined {
+  const weekday = (name: string) => WEEKDAYS.findIndex(d => d.startsWith(name.toLowerCase().slice(0, 3)));
+  const schedule: ScheduleEntry[] = [];
+
+  for (const part of text.split(/[,;]/).map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(LEGACY_HOURS);
+    if (!match) return undefined;
+    const [, from, to, hours, h1, m1, ap1, h2, m2, ap2] = match;
+    const first = weekday(from);
+    const last = to ? weekday(to) : first;
+    if (first < 0 || last < first) return undefined;
+
+    const open = /^closed$/i.test(hours) ? undefined : legacyTime(h1, m1, ap1);
+    const close = /^closed$/i.test(hours) ? undefined : legacyTime(h2, m2, ap2);
+    if (!/^closed$/i.test(hours) && !(open && close && open < close)) return undefined;
+
+    for (const day of WEEKDAYS.slice(first, last + 1)) {
+      if (schedule.some(e => e.day === day)) return undefined;
+      schedule.push(open && close ? { day, closed: false, open, close } : { day, closed: true });
+    }
+  }
+  return schedule;
+}
+
+/**
+ * Build a knowledge base from the free-text services and hours agents kept before knowledge bases existed.
+ * Hours that can't be parsed are kept word for word as a policy rather than dropped
+ */
+export function knowledgeBaseFromLegacy(legacy: LegacyBusinessFacts): Omit<KnowledgeBase, 'agentId' | 'version'> {
+  const services: ServiceOffering[] = [];
+  for (const service of (legacy.services || []).map(parseLegacyService)) {
+    if (service.name && !services.some(s => s.name.toLowerCase() === service.name.toLowerCase())) {
+      services.push(service);
+    }
+  }
+
+  const hours = legacy.workingHours?.trim();
+  const weeklySchedule = hours ? parseLegacyWorkingHours(hours) : [];
+  return {
+    services,
+    weeklySchedule: weeklySchedule || [],
+    holidays: [],
+    policies: hours && !weeklySchedule ? [{ title: 'Working hours', description: hours }] : [],
+    faqs: [],
+  };
+}
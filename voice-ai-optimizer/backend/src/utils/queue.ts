@@ -1,6 +1,7 @@
 import { Queue, Job, QueueEvents, ConnectionOptions } from 'bullmq';
 import IORedis from 'ioredis';
 import { config } from '../config/index.js';
+import { JobPhase, JobProgress, JobStatusResponse, ExecutionOptions } from '../types/index.js';
 
 // Redis connection for BullMQ
 const redisConnection = new IORedis(config.REDIS_URL, {
@@ -12,30 +13,41 @@ const connection = redisConnection as unknown as ConnectionOptions;
 // Job types
 export type JobType = 'test-execution' | 'optimization-loop';
 
+// Run options that survive serialization into the job; suite settings are read when the job runs
+export type QueuedExecutionOptions = Pick<ExecutionOptions, 'llmTurnCheck' | 'judgeSamples' | 'repeat' | 'flakyThreshold'>;
+
 export interface TestExecutionJobData {
   type: 'test-execution';
   suiteId: string;
   agentId: string;
-  userId: string;
+  userId?: string;
+  options: QueuedExecutionOptions;
+  resumeExecutionId?: string; // Continue this execution from its checkpoint instead of starting a new one
 }
 
 export interface OptimizationJobData {
   type: 'optimization-loop';
   suiteId: string;
   agentId: string;
-  userId: string;
+  userId?: string;
   maxIterations: number;
   targetScore: number;
+  options: QueuedExecutionOptions;
+  originalPrompt?: string; // Saved by the first attempt so a retry can undo a candidate a crash left applied
 }
 
 export type JobData = TestExecutionJobData | OptimizationJobData;
 
 export interface JobResult {
   success: boolean;
+  cancelled?: boolean; // Stopped on request; data holds the partial results
   data?: unknown;
   error?: string;
 }
 
+const CANCEL_FLAG_TTL_SECONDS = 24 * 60 * 60;
+const cancelKey = (jobId: string) => `job-cancel:${jobId}`;
+
 // Create the main queue
 export const optimizerQueue = new Queue<JobData, JobResult>('voice-ai-optimizer', {
   connection,
@@ -81,29 +93,36 @@ export async function addJob(data: JobData): Promise<Job<JobData, JobResult, str
 }
 
 // Helper to get job status
-export async function getJobStatus(jobId: string): Promise<{
-  id: string;
-  status: string;
-  progress: number;
-  data: JobData | undefined;
-  result: JobResult | undefined;
-  failedReason: string | undefined;
-} | null> {
+export async function getJobStatus(jobId: string): Promise<JobStatusResponse | null> {
   const job = await optimizerQueue.getJob(jobId);
   if (!job) return null;
 
   const state = await job.getState();
-  
+  const result = job.returnvalue as JobResult | undefined;
+  // The worker reports progress as { phase, percent }; a bare number means no phase yet
+  const progress = typeof job.progress === 'object' ? job.progress as JobProgress : undefined;
+
   return {
     id: job.id || jobId,
-    status: state,
-    progress: job.progress as number || 0,
-    data: job.data,
-    result: job.returnvalue as JobResult | undefined,
-    failedReason: job.failedReason,
+    // The worker catches errors and returns them, so a completed job can still have failed
+    status: result?.success === false ? 'failed' : result?.cancelled ? 'cancelled' : state,
+    progress: progress?.percent ?? (job.progress as number || 0),
+    phase: progress?.phase ?? (state === 'waiting' || state === 'delayed' ? JobPhase.QUEUED : undefined),
+    result: result?.data,
+    error: result?.error ?? (job.failedReason || undefined),
   };
 }
 
+// Ask a job to stop; the worker checks the flag between turns
+export async function requestCancel(jobId: string): Promise<void> {
+  await redisConnection.set(cancelKey(jobId), '1', 'EX', CANCEL_FLAG_TTL_SECONDS);
+  console.log(`⛔ Cancellation requested for job ${jobId}`);
+}
+
+export async function isCancelRequested(jobId: string): Promise<boolean> {
+  return (await redisConnection.exists(cancelKey(jobId))) === 1;
+}
+
 // Cleanup function
 export async function closeQueue(): Promise<void> {
   await optimizerQueue.close();
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { mean, quantile, latencyStats, pairedBootstrap, mcnemarExact, compareRuns, cohensKappa, failureConfusion } from './statistics.js';
+import { Evaluation } from '../types/index.js';
+
+const OPTIONS = { alpha: 0.05, confidenceLevel: 0.95, minScoreDelta: 0.02 };
+
+const evaluation = (testCaseId: string, overallScore: number, passed: boolean): Evaluation => ({
+  testCaseId,
+  passed,
+  overallScore,
+  criteriaResults: [],
+  reasoning: '',
+  confidence: 1,
+});
+
+describe('quantile', () => {
+  it('interpolates between closest ranks', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([10], 0.95)).toBe(10);
+    expect(quantile([], 0.5)).toBe(0);
+  });
+});
+
+describe('latencyStats', () => {
+  it('summarizes response times in whole milliseconds', () => {
+    expect(latencyStats([100, 200, 300, 400, 1000])).toEqual({ samples: 5, mean: 400, p50: 300, p95: 880, max: 1000 });
+  });
+
+  it('is all zeros without samples', () => {
+    expect(latencyStats([])).toEqual({ samples: 0, mean: 0, p50: 0, p95: 0, max: 0 });
+  });
+
+  it('keeps p50 <= p95 <= max', () => {
+    fc.assert(fc.property(fc.array(fc.nat(10000), { minLength: 1, maxLength: 50 }), latencies => {
+      const stats = latencyStats(latencies);
+      expect(stats.p50).toBeLessThanOrEqual(stats.p95);
+      expect(stats.p95).toBeLessThanOrEqual(stats.max);
+    }));
+  });
+});
+
+describe('mcnemarExact', () => {
+  it('is 1 with no discordant pairs', () => {
+    expect(mcnemarExact(0, 0)).toBe(1);
+  });
+
+  it('matches the exact binomial tail', () => {
+    // 2 * P(X <= 0), X ~ Binomial(5, 0.5)
+    expect(mcnemarExact(5, 0)).toBeCloseTo(2 / 32);
+    // 2 * P(X <= 1), X ~ Binomial(10, 0.5) = 2 * 11 / 1024
+    expect(mcnemarExact(9, 1)).toBeCloseTo(22 / 1024);
+  });
+
+  it('is symmetric and never exceeds 1', () => {
+    fc.assert(fc.property(fc.nat(60), fc.nat(60), (a, b) => {
+      const p = mcnemarExact(a, b);
+      expect(p).toBe(mcnemarExact(b, a));
+      expect(p).toBeGreaterThan(0);
+      expect(p).toBeLessThanOrEqual(1);
+    }));
+  });
+});
+
+describe('pairedBootstrap', () => {
+  it('is reproducible for the same seed', () => {
+    const series = [[0.1, 0.5, 0.9, 0.4], [0.3, 0.6, 0.8, 0.7]];
+    expect(pairedBootstrap(series, { seed: 7 })).toEqual(pairedBootstrap(series, { seed: 7 }));
+  });
+
+  it('brackets the sample mean', () => {
+    fc.assert(fc.property(fc.array(fc.double({ min: 0, max: 1, noNaN: true }), { minLength: 1, maxLength: 30 }), values => {
+      const [ci] = pairedBootstrap([values], { iterations: 200 });
+      expect(ci.mean).toBeCloseTo(mean(values));
+      expect(ci.low).toBeLessThanOrEqual(ci.high);
+      expect(ci.low).toBeGreaterThanOrEqual(Math.min(...values) - 1e-9);
+      expect(ci.high).toBeLessThanOrEqual(Math.max(...values) + 1e-9);
+    }));
+  });
+
+  it('collapses to zero for empty series', () => {
+    expect(pairedBootstrap([[], []])).toEqual([{ mean: 0, low: 0, high: 0 }, { mean: 0, low: 0, high: 0 }]);
+  });
+});
+
+describe('cohensKappa', () => {
+  it('is 1 for perfect agreement and 0 for chance agreement', () => {
+    expect(cohensKappa(failureConfusion([
+      { actualFailed: true, predictedFailed: true },
+      { actualFailed: false, predictedFailed: false },
+    ]))).toBe(1);
+    expect(cohensKappa({ truePositives: 1, falsePositives: 1, trueNegatives: 1, falseNegatives: 1 })).toBe(0);
+  });
+});
+
+describe('compareRuns', () => {
+  it('accepts a small suite that fixes failing tests without breaking any', () => {
+    const before = [
+      evaluation('a', 0.4, false),
+      evaluation('b', 0.5, false),
+      evaluation('c', 0.9, true),
+      evaluation('d', 0.8, true),
+    ];
+    const after = [
+      evaluation('a', 0.9, true),
+      evaluation('b', 0.85, true),
+      evaluation('c', 0.95, true),
+      evaluation('d', 0.85, true),
+    ];
+    const report = compareRuns(before, after, OPTIONS);
+    expect(report.mcnemar).toMatchObject({ improved: 2, regressed: 0 });
+    expect(report.mcnemar.pValue).toBeGreaterThan(OPTIONS.alpha);
+    expect(report.significant).toBe(true);
+  });
+
+  it('rejects a higher score that breaks more tests than it fixes', () => {
+    const before = [
+      evaluation('a', 0.1, false),
+      evaluation('b', 0.75, true),
+      evaluation('c', 0.75, true),
+    ];
+    const after = [
+      evaluation('a', 1, true),
+      evaluation('b', 0.65, false),
+      evaluation('c', 0.65, false),
+    ];
+    const report = compareRuns(before, after, OPTIONS);
+    expect(report.mcnemar).toMatchObject({ improved: 1, regressed: 2 });
+    expect(report.significant).toBe(false);
+  });
+
+  it('rejects a tiny uniform gain as noise', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const before = ids.map(id => evaluation(id, 0.8, true));
+    const after = ids.map(id => evaluation(id, 0.81, true));
+    const report = compareRuns(before, after, OPTIONS);
+    expect(report.difference.low).toBeGreaterThan(0);
+    expect(report.significant).toBe(false);
+    expect(compareRuns(before, after, { ...OPTIONS, minScoreDelta: 0 }).significant).toBe(true);
+  });
+
+  it('requires McNemar once enough verdicts flip to test', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+    const before = ids.map((id, i) => evaluation(id, i < 5 ? 0.3 : 0.8, i >= 5));
+    // 5 fixed, 3 broken: more fixed than broken and a big score gain, but p is far above alpha
+    const after = ids.map((id, i) => evaluation(id, i < 5 ? 1 : 0.65, i < 5));
+    const report = compareRuns(before, after, OPTIONS);
+    expect(report.mcnemar).toMatchObject({ improved: 5, regressed: 3 });
+    expect(report.difference.low).toBeGreaterThan(OPTIONS.minScoreDelta);
+    expect(report.significant).toBe(false);
+
+    const allFixed = ids.map(id => evaluation(id, 0.3, false));
+    const fixedReport = compareRuns(allFixed, ids.map(id => evaluation(id, 0.9, true)), OPTIONS);
+    expect(fixedReport.mcnemar.pValue).toBeLessThan(OPTIONS.alpha);
+    expect(fixedReport.significant).toBe(true);
+  });
+
+  it('is not significant for identical runs', () => {
+    const run = [evaluation('a', 0.5, false), evaluation('b', 0.9, true)];
+    const report = compareRuns(run, run, OPTIONS);
+    expect(report.difference).toEqual({ mean: 0, low: 0, high: 0 });
+    expect(report.significant).toBe(false);
+  });
+
+  it('only pairs tests present in both runs', () => {
+    const report = compareRuns(
+      [evaluation('a', 0.2, false), evaluation('gone', 0.2, false)],
+      [evaluation('a', 0.9, true), evaluation('new', 0.9, true)],
+      OPTIONS
+    );
+    expect(report.pairedTests).toBe(1);
+  });
+
+  it('is not significant with nothing to pair', () => {
+    expect(compareRuns([], [], OPTIONS).significant).toBe(false);
+  });
+});
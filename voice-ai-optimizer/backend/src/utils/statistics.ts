@@ -0,0 +1,207 @@
+import { ConfusionMatrix, LatencyStats, Evaluation, SignificanceReport } from '../types/index.js';
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// Population variance
+export function variance(values: number[]): number {
+  if (values.length === 0) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length;
+}
+
+/**
+ * Quantile with linear interpolation between closest ranks
+ */
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function latencyStats(latencies: number[]): LatencyStats {
+  return {
+    samples: latencies.length,
+    mean: Math.round(mean(latencies)),
+    p50: Math.round(quantile(latencies, 0.5)),
+    p95: Math.round(quantile(latencies, 0.95)),
+    max: latencies.length > 0 ? Math.max(...latencies) : 0,
+  };
+}
+
+/**
+ * Build a confusion matrix where the positive class is "failed"
+ */
+export function failureConfusion(pairs: Array<{ actualFailed: boolean; predictedFailed: boolean }>): ConfusionMatrix {
+  const matrix: ConfusionMatrix = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+  for (const { actualFailed, predictedFailed } of pairs) {
+    if (predictedFailed && actualFailed) matrix.truePositives++;
+    else if (predictedFailed) matrix.falsePositives++;
+    else if (actualFailed) matrix.falseNegatives++;
+    else matrix.trueNegatives++;
+  }
+  return matrix;
+}
+
+function total(m: ConfusionMatrix): number {
+  return m.truePositives + m.falsePositives + m.trueNegatives + m.falseNegatives;
+}
+
+export function accuracy(m: ConfusionMatrix): number {
+  const n = total(m);
+  return n > 0 ? (m.truePositives + m.trueNegatives) / n : 0;
+}
+
+export function precision(m: ConfusionMatrix): number {
+  const predicted = m.truePositives + m.falsePositives;
+  return predicted > 0 ? m.truePositives / predicted : 0;
+}
+
+export function recall(m: ConfusionMatrix): number {
+  const actual = m.truePositives + m.falseNegatives;
+  return actual > 0 ? m.truePositives / actual : 0;
+}
+
+/**
+ * Cohen's kappa: agreement corrected for what two raters would reach by chance
+ */
+export function cohensKappa(m: ConfusionMatrix): number {
+  const n = total(m);
+  if (n === 0) return 0;
+  const observed = (m.truePositives + m.trueNegatives) / n;
+  const expected =
+    ((m.truePositives + m.falsePositives) * (m.truePositives + m.falseNegatives) +
+      (m.trueNegatives + m.falseNegatives) * (m.trueNegatives + m.falsePositives)) / (n * n);
+  // Both raters constant and identical: perfect agreement, kappa is undefined
+  if (expected === 1) return observed === 1 ? 1 : 0;
+  return (observed - expected) / (1 - expected);
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so bootstrap results are reproducible
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(p * sorted.length)));
+  return sorted[index];
+}
+
+export interface BootstrapOptions {
+  iterations?: number;
+  confidenceLevel?: number;
+  seed?: number;
+}
+
+/**
+ * Percentile bootstrap confidence interval for the mean of several paired series.
+ * Every series is resampled with the same indices, which keeps before/after pairs together
+ */
+export function pairedBootstrap(
+  series: number[][],
+  options: BootstrapOptions = {}
+): Array<{ mean: number; low: number; high: number }> {
+  const { iterations = 2000, confidenceLevel = 0.95, seed = 42 } = options;
+  const n = series[0]?.length ?? 0;
+  if (n === 0) return series.map(() => ({ mean: 0, low: 0, high: 0 }));
+
+  const random = seededRandom(seed);
+  const samples: number[][] = series.map(() => []);
+  for (let i = 0; i < iterations; i++) {
+    const indices = Array.from({ length: n }, () => Math.floor(random() * n));
+    series.forEach((values, s) => samples[s].push(mean(indices.map(idx => values[idx]))));
+  }
+
+  const tail = (1 - confidenceLevel) / 2;
+  return series.map((values, s) => {
+    const sorted = samples[s].sort((a, b) => a - b);
+    return { mean: mean(values), low: percentile(sorted, tail), high: percentile(sorted, 1 - tail) };
+  });
+}
+
+/**
+ * Exact two-sided McNemar test on the discordant pairs (binomial with p = 0.5)
+ */
+export function mcnemarExact(improved: number, regressed: number): number {
+  const n = improved + regressed;
+  if (n === 0) return 1;
+  const k = Math.min(improved, regressed);
+
+  // P(X <= k) for X ~ Binomial(n, 0.5), built term by term to stay in floating range
+  let term = Math.pow(0.5, n);
+  let cumulative = term;
+  for (let i = 1; i <= k; i++) {
+    term = term * (n - i + 1) / i;
+    cumulative += term;
+  }
+  return Math.min(1, 2 * cumulative);
+}
+
+export interface SignificanceOptions {
+  alpha: number;
+  confidenceLevel: number;
+  minScoreDelta: number; // Smallest mean score gain (0-1) worth keeping a new prompt for
+}
+
+/**
+ * Paired before/after comparison: bootstrap CIs on score and an exact McNemar test on pass/fail
+ */
+export function compareRuns(before: Evaluation[], after: Evaluation[], options: SignificanceOptions): SignificanceReport {
+  const { alpha, confidenceLevel, minScoreDelta } = options;
+  const afterById = new Map(after.map(e => [e.testCaseId, e]));
+  const pairs = before
+    .filter(e => afterById.has(e.testCaseId))
+    .map(e => ({ before: e, after: afterById.get(e.testCaseId)! }));
+
+  const [beforeCI, afterCI, differenceCI] = pairedBootstrap([
+    pairs.map(p => p.before.overallScore),
+    pairs.map(p => p.after.overallScore),
+    pairs.map(p => p.after.overallScore - p.before.overallScore),
+  ], { confidenceLevel });
+
+  const improved = pairs.filter(p => !p.before.passed && p.after.passed).length;
+  const regressed = pairs.filter(p => p.before.passed && !p.after.passed).length;
+  const pValue = mcnemarExact(improved, regressed);
+
+  // The whole interval must clear the minimum gain, so a tiny uniform nudge doesn't count
+  const scoreImproved = differenceCI.low > 0 && differenceCI.low >= minScoreDelta;
+  // McNemar gates once enough verdicts flipped to reach alpha; with fewer, a small suite couldn't pass
+  // however many tests it fixes, so then no more tests may break than got fixed
+  const mcnemarTestable = mcnemarExact(improved + regressed, 0) < alpha;
+  const verdictsAgree = mcnemarTestable ? improved > regressed && pValue < alpha : regressed <= improved;
+  const significant = pairs.length > 0 && scoreImproved && verdictsAgree;
+
+  const pct = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(1)}%`;
+  const summary = [
+    `Score change ${pct(differenceCI.mean)} (${confidenceLevel * 100}% CI ${pct(differenceCI.low)} to ${pct(differenceCI.high)}, minimum ${pct(minScoreDelta)})`,
+    `${improved} fixed / ${regressed} broken (McNemar p=${pValue.toFixed(3)})`,
+    significant ? 'significant improvement' : 'not significant',
+  ].join(', ');
+
+  return {
+    pairedTests: pairs.length,
+    confidenceLevel,
+    before: beforeCI,
+    after: afterCI,
+    difference: differenceCI,
+    mcnemar: { improved, regressed, pValue },
+    alpha,
+    minScoreDelta,
+    significant,
+    summary,
+  };
+}
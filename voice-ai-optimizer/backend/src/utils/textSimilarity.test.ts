@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { tokenize, lexicalSimilarity } from './textSimilarity.js';
+
+describe('tokenize', () => {
+  it('drops stopwords and punctuation and stems suffixes', () => {
+    expect(tokenize('I am booking the cleanings, thanks!')).toEqual(['book', 'cleaning', 'thank']);
+  });
+
+  it('treats "$99" and "99" as the same amount', () => {
+    expect(tokenize('It costs $99')).toEqual(tokenize('It costs 99'));
+  });
+});
+
+describe('lexicalSimilarity', () => {
+  it('is 1 for the same reply worded with different stopwords and punctuation', () => {
+    expect(lexicalSimilarity('Your cleaning is booked for Monday.', 'The cleaning is booked for monday!')).toBeCloseTo(1);
+  });
+
+  it('is 0 with no words in common', () => {
+    expect(lexicalSimilarity('Your cleaning is booked', 'Sorry, we are closed Sundays')).toBe(0);
+    expect(lexicalSimilarity('Hello there', '')).toBe(0);
+  });
+
+  it('counts shared phrasing above shared vocabulary', () => {
+    const expected = 'we are open monday to friday';
+    expect(lexicalSimilarity(expected, 'open monday through friday')).toBeGreaterThan(
+      lexicalSimilarity(expected, 'friday through monday open')
+    );
+  });
+
+  it('is symmetric and stays within 0-1', () => {
+    fc.assert(fc.property(fc.string(), fc.string(), (a, b) => {
+      const score = lexicalSimilarity(a, b);
+      expect(score).toBeCloseTo(lexicalSimilarity(b, a));
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1 + 1e-9);
+    }));
+  });
+});
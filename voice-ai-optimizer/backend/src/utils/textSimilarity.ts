@@ -0,0 +1,69 @@
+// Words that carry no meaning for comparing two replies
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from',
+  'is', 'are', 'was', 'were', 'be', 'been', 'am', 'it', 'its', 'this', 'that', 'these', 'those',
+  'i', 'you', 'we', 'they', 'he', 'she', 'me', 'my', 'your', 'our', 'us', 'them',
+  'do', 'does', 'did', 'can', 'could', 'will', 'would', 'should', 'so', 'just', 'very', 'also',
+]);
+
+/**
+ * Lowercase, strip punctuation, drop stopwords and apply a light suffix stemmer
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\$(\d)/g, '$1') // "$99" and "99" are the same amount
+    .replace(/[^a-z0-9\s']/g, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/'s$|'/g, ''))
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  for (const suffix of ['ing', 'ed', 'es', 's', 'ly']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, count] of a) {
+    dot += count * (b.get(term) || 0);
+  }
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Lexical similarity (0-1) of two texts: cosine over stemmed unigrams blended with bigrams,
+ * so shared phrasing counts more than shared vocabulary
+ */
+export function lexicalSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.length === 0 && tokensB.length === 0) return 1;
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const bigrams = (tokens: string[]) => tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`);
+  const unigramScore = cosine(termFrequencies(tokensA), termFrequencies(tokensB));
+  const bigramsA = bigrams(tokensA);
+  const bigramsB = bigrams(tokensB);
+  if (bigramsA.length === 0 || bigramsB.length === 0) return unigramScore;
+
+  const bigramScore = cosine(termFrequencies(bigramsA), termFrequencies(bigramsB));
+  return 0.8 * unigramScore + 0.2 * bigramScore;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { analyzeSentiment, analyzeTone } from './toneAnalysis.js';
+import { Sentiment, ToneTrait } from '../types/index.js';
+
+describe('analyzeSentiment', () => {
+  it('labels clearly positive and negative replies', () => {
+    expect(analyzeSentiment("Great news, I'd be happy to help!").label).toBe(Sentiment.POSITIVE);
+    expect(analyzeSentiment('Unfortunately that is a problem and I am unable to fix it.').label).toBe(Sentiment.NEGATIVE);
+  });
+
+  it('flips words after a negator', () => {
+    const result = analyzeSentiment("That's not good at all.");
+    expect(result.label).toBe(Sentiment.NEGATIVE);
+    expect(result.negative).toEqual(['not good']);
+    expect(analyzeSentiment("It isn't a problem.").label).toBe(Sentiment.POSITIVE);
+  });
+
+  it('is neutral without emotional words', () => {
+    expect(analyzeSentiment('Your appointment is on Tuesday at 3.')).toMatchObject({ label: Sentiment.NEUTRAL, polarity: 0 });
+  });
+
+  it('keeps polarity and confidence in range', () => {
+    fc.assert(fc.property(fc.string(), text => {
+      const { polarity, confidence } = analyzeSentiment(text);
+      expect(Math.abs(polarity)).toBeLessThanOrEqual(1);
+      expect(confidence).toBeGreaterThanOrEqual(0.5);
+      expect(confidence).toBeLessThanOrEqual(1);
+    }));
+  });
+});
+
+describe('analyzeTone', () => {
+  it('needs two politeness markers but only one apology or rude remark', () => {
+    expect(analyzeTone('Thank you.').traits[ToneTrait.POLITE]).toBe(0.5);
+    expect(analyzeTone('Thank you, happy to help.').traits[ToneTrait.POLITE]).toBe(1);
+    expect(analyzeTone("I'm sorry about that.").traits[ToneTrait.APOLOGETIC]).toBe(1);
+    expect(analyzeTone('As I said, calm down.').evidence[ToneTrait.RUDE]).toEqual(['as i said', 'calm down']);
+  });
+
+  it('picks up empathy', () => {
+    expect(analyzeTone('I understand, that sounds painful.').traits[ToneTrait.EMPATHETIC]).toBe(1);
+  });
+
+  it('balances formal against casual markers', () => {
+    const formal = analyzeTone('Certainly, may I assist you regarding your visit?');
+    expect(formal.traits[ToneTrait.FORMAL]).toBe(1);
+    expect(formal.traits[ToneTrait.CASUAL]).toBe(0);
+
+    const casual = analyzeTone('Hey, yeah no worries, gonna sort that out.');
+    expect(casual.traits[ToneTrait.CASUAL]).toBe(1);
+  });
+
+  it('treats formality as a guess without markers', () => {
+    const tone = analyzeTone('Your appointment is on Tuesday.');
+    expect(tone.traits[ToneTrait.FORMAL]).toBe(0.5);
+    expect(tone.formalityEvidence).toBe(0);
+  });
+
+  it('only lets contractions nudge formality', () => {
+    // One formal marker outweighs two contractions at a quarter each
+    expect(analyzeTone("Please, I'm sure we'll find a time.").traits[ToneTrait.FORMAL]).toBeCloseTo(1 / 1.5);
+  });
+});
@@ -0,0 +1,124 @@
+import { Sentiment, ToneTrait } from '../types/index.js';
+
+// Polarity beyond this (either way) is no longer neutral
+export const SENTIMENT_NEUTRAL_BAND = 0.2;
+
+export interface SentimentAnalysis {
+  label: Sentiment;
+  polarity: number; // -1 (negative) to 1 (positive)
+  confidence: number;
+  positive: string[]; // Words that counted as positive
+  negative: string[];
+}
+
+export interface ToneAnalysis {
+  traits: Record<ToneTrait, number>; // 0-1 strength per trait; >= 0.5 counts as present
+  evidence: Record<ToneTrait, string[]>;
+  formalityEvidence: number; // Formal + casual markers seen; few means formality is a guess
+}
+
+const POSITIVE_WORDS = new Set([
+  'happy', 'glad', 'great', 'wonderful', 'excellent', 'perfect', 'thank', 'thanks', 'pleasure', 'welcome',
+  'love', 'delighted', 'fantastic', 'good', 'awesome', 'appreciate', 'enjoy', 'pleased', 'amazing', 'lovely',
+  'helpful', 'easy', 'available', 'absolutely', 'certainly', 'gladly', 'best', 'nice', 'excited', 'congratulations',
+]);
+const NEGATIVE_WORDS = new Set([
+  'unfortunately', 'unable', 'problem', 'issue', 'bad', 'terrible', 'awful', 'angry', 'upset', 'annoying',
+  'frustrating', 'frustrated', 'disappointed', 'disappointing', 'wrong', 'impossible', 'refuse', 'hate',
+  'worst', 'horrible', 'fail', 'failed', 'unacceptable', 'ridiculous', 'difficult', 'complaint', 'denied',
+]);
+const NEGATORS = new Set(['not', 'no', 'never', "n't", 'cannot', 'nothing', 'neither', 'nor', 'without']);
+const INTENSIFIERS = new Set(['very', 'really', 'so', 'extremely', 'truly', 'absolutely', 'incredibly']);
+// How many following words a negator flips
+const NEGATION_WINDOW = 3;
+
+// Markers are matched against lowercased text; each hit is one piece of evidence
+const TONE_MARKERS: Record<Exclude<ToneTrait, ToneTrait.FORMAL | ToneTrait.CASUAL>, RegExp> = {
+  [ToneTrait.POLITE]: /\b(please|thank you|thanks|you're welcome|happy to help|glad to help|would you like|may i|could you|my pleasure|certainly|of course|i'd be happy)\b/g,
+  [ToneTrait.APOLOGETIC]: /\b(sorry|apologi[sz]e|apologies|i regret|pardon|forgive me)\b/g,
+  [ToneTrait.EMPATHETIC]: /\b(i understand|i hear you|i can imagine|that sounds (frustrating|painful|difficult|stressful|hard)|that must be|sorry to hear|don't worry|completely understandable|i know how)\b/g,
+  [ToneTrait.RUDE]: /\b(calm down|as i (already )?said|as i told you|i told you|obviously|whatever|not my problem|deal with it|shut up|stupid|you need to listen|figure it out yourself)\b/g,
+};
+const FORMAL_MARKERS = /\b(certainly|would you|may i|kindly|assist|regarding|however|therefore|please|sir|madam|appreciate|apologi[sz]e)\b/g;
+const CASUAL_MARKERS = /\b(hey|yeah|yep|nope|gonna|wanna|gotta|cool|awesome|no worries|sure thing|lol|guys|kinda|sorta|ok|okay|btw|stuff)\b/g;
+const CONTRACTION = /\b\w+'(s|re|ll|ve|d|m|t)\b/g;
+// Contractions are normal in polite speech, so they only nudge formality
+const CONTRACTION_WEIGHT = 0.25;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/n't\b/g, " n't")
+    .match(/[a-z']+/g) || [];
+}
+
+/**
+ * Lexicon sentiment with negation and intensifiers; confidence grows with evidence and distance from neutral
+ */
+export function analyzeSentiment(text: string): SentimentAnalysis {
+  const tokens = tokenize(text);
+  const positive: string[] = [];
+  const negative: string[] = [];
+  let score = 0;
+  let evidence = 0;
+
+  tokens.forEach((token, i) => {
+    const isPositive = POSITIVE_WORDS.has(token);
+    const isNegative = NEGATIVE_WORDS.has(token);
+    if (!isPositive && !isNegative) return;
+
+    const window = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i);
+    const negated = window.some(t => NEGATORS.has(t));
+    const weight = INTENSIFIERS.has(tokens[i - 1]) ? 1.5 : 1;
+    const sign = (isPositive ? 1 : -1) * (negated ? -1 : 1);
+
+    score += sign * weight;
+    evidence += weight;
+    (sign > 0 ? positive : negative).push(negated ? `not ${token}` : token);
+  });
+
+  if (evidence === 0) {
+    // Nothing emotional said is itself fairly good evidence of neutral
+    return { label: Sentiment.NEUTRAL, polarity: 0, confidence: 0.6, positive, negative };
+  }
+
+  const polarity = score / evidence;
+  const label = polarity > SENTIMENT_NEUTRAL_BAND
+    ? Sentiment.POSITIVE
+    : polarity < -SENTIMENT_NEUTRAL_BAND ? Sentiment.NEGATIVE : Sentiment.NEUTRAL;
+  const strength = Math.min(1, evidence / 4);
+  const margin = Math.min(1, Math.abs(Math.abs(polarity) - SENTIMENT_NEUTRAL_BAND) / 0.3);
+
+  return { label, polarity, confidence: 0.5 + 0.5 * strength * margin, positive, negative };
+}
+
+/**
+ * Marker-based tone traits: politeness, apology, empathy, rudeness and formality
+ */
+export function analyzeTone(text: string): ToneAnalysis {
+  const lower = text.toLowerCase();
+  const matches = (pattern: RegExp) => [...lower.matchAll(pattern)].map(m => m[0]);
+
+  const evidence = {} as Record<ToneTrait, string[]>;
+  const traits = {} as Record<ToneTrait, number>;
+  for (const [trait, pattern] of Object.entries(TONE_MARKERS) as Array<[ToneTrait, RegExp]>) {
+    evidence[trait] = matches(pattern);
+    // Politeness needs a couple of markers; one apology or one rude remark is enough
+    const needed = trait === ToneTrait.POLITE ? 2 : 1;
+    traits[trait] = Math.min(1, evidence[trait].length / needed);
+  }
+
+  const formal = matches(FORMAL_MARKERS);
+  const casual = matches(CASUAL_MARKERS);
+  const contractions = matches(CONTRACTION);
+  const casualWeight = casual.length + contractions.length * CONTRACTION_WEIGHT;
+  const total = formal.length + casualWeight;
+  const formality = total > 0 ? formal.length / total : 0.5;
+
+  evidence[ToneTrait.FORMAL] = formal;
+  evidence[ToneTrait.CASUAL] = [...casual, ...contractions];
+  traits[ToneTrait.FORMAL] = formality;
+  traits[ToneTrait.CASUAL] = 1 - formality;
+
+  return { traits, evidence, formalityEvidence: formal.length + casual.length };
+}
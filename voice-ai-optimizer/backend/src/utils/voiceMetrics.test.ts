@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateSpokenSeconds,
+  spokenBefore,
+  analyzeVoiceTurn,
+  analyzeVoiceConversation,
+  summarizeVoiceMetrics,
+} from './voiceMetrics.js';
+
+describe('estimateSpokenSeconds', () => {
+  it('scales with word count and voice speed', () => {
+    const tenWords = 'one two three four five six seven eight nine ten';
+    expect(estimateSpokenSeconds(tenWords)).toBeCloseTo(4);
+    expect(estimateSpokenSeconds(tenWords, 2)).toBeCloseTo(2);
+    // A non-positive speed falls back to normal speed
+    expect(estimateSpokenSeconds(tenWords, 0)).toBeCloseTo(4);
+  });
+});
+
+describe('spokenBefore', () => {
+  it('keeps only the words said before the barge-in', () => {
+    expect(spokenBefore('We are open Monday to Friday', 1200)).toBe('We are open…');
+    expect(spokenBefore('We are open Monday to Friday', 1200, 2)).toBe('We are open Monday to Friday');
+  });
+
+  it('returns a reply that finished untouched', () => {
+    expect(spokenBefore('Sure.', 5000)).toBe('Sure.');
+  });
+});
+
+describe('analyzeVoiceTurn', () => {
+  it('scores a short plain reply 1', () => {
+    expect(analyzeVoiceTurn('Sure, I can book that for Tuesday at 2 PM.', 0)).toMatchObject({ issues: [], score: 1, sentenceCount: 1 });
+  });
+
+  it('penalizes formatting that sounds wrong over text-to-speech', () => {
+    const turn = analyzeVoiceTurn('Here are our **services**:\n- Cleaning\n- Whitening 😀\nSee www.example.com', 0);
+    expect(turn).toMatchObject({ bulletCount: 2, markdownCount: 1, emojiCount: 1, urlCount: 1 });
+    expect(turn.score).toBeCloseTo(1 - 0.25 - 0.2 - 0.15 - 0.15);
+  });
+
+  it('flags numbers that text-to-speech reads badly', () => {
+    const turn = analyzeVoiceTurn('A filling is $150-$300 and we open at 14:00.', 0);
+    expect(turn.unreadableNumbers).toEqual(['$150-$300', '14:00']);
+    expect(turn.score).toBeCloseTo(0.9);
+  });
+
+  it('flags long sentences', () => {
+    const sentence = `${Array.from({ length: 30 }, () => 'word').join(' ')}.`;
+    expect(analyzeVoiceTurn(sentence, 0).issues).toEqual(['longest sentence is 30 words']);
+  });
+});
+
+describe('summarizeVoiceMetrics', () => {
+  it('rolls up agent replies only', () => {
+    const turns = analyzeVoiceConversation([
+      { role: 'user', content: '**not scored**' },
+      { role: 'assistant', content: 'Hello!' },
+      { role: 'user', content: 'Services?' },
+      { role: 'assistant', content: '- Cleaning\n- Whitening' },
+    ]);
+    expect(turns.map(t => t.turnIndex)).toEqual([0, 1]);
+
+    const summary = summarizeVoiceMetrics(turns);
+    expect(summary).toMatchObject({ turns: 2, turnsWithFormatting: 1 });
+    expect(summary.score).toBeCloseTo(0.875);
+  });
+
+  it('scores a run with no replies 1', () => {
+    expect(summarizeVoiceMetrics([])).toMatchObject({ turns: 0, score: 1, maxSpokenSeconds: 0 });
+  });
+});
@@ -0,0 +1,158 @@
+import { VoiceTurnMetrics, VoiceMetricsSummary } from '../types/index.js';
+
+export const DEFAULT_WORDS_PER_MINUTE = 150;
+// Listeners lose track of spoken sentences much past this
+export const MAX_COMFORTABLE_SENTENCE_WORDS = 25;
+export const MAX_COMFORTABLE_SPOKEN_SECONDS = 20;
+
+const MARKDOWN_PATTERN = /(^#{1,6}\s)|(\*\*[^*]+\*\*)|(__[^_]+__)|(`[^`]+`)|(\[[^\]]+\]\([^)]+\))|(^\s*>\s)/gm;
+const BULLET_PATTERN = /^\s*([-*•·▪]|\d+[.)])\s+/gm;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const URL_PATTERN = /\b(https?:\/\/\S+|www\.\S+|\S+\.(com|org|net|io|co)(\/\S*)?)\b/gi;
+
+// Number formats text-to-speech engines read badly
+const NUMBER_READABILITY_RULES: Array<{ pattern: RegExp; issue: string }> = [
+  { pattern: /\$\d[\d,]*(\.\d+)?\s*[-–]\s*\$?\d[\d,]*(\.\d+)?/g, issue: 'hyphenated price range (say "150 to 300 dollars")' },
+  { pattern: /\b(0\d|1[3-9]|2[0-3]):[0-5]\d\b/g, issue: '24-hour time (say "2 PM" rather than "14:00")' },
+  { pattern: /\b\d+\.\d{3,}\b/g, issue: 'long decimal' },
+  { pattern: /\b\d{5,}\b/g, issue: 'long digit string' },
+  { pattern: /\b\d+\/\d+\b/g, issue: 'slash fraction or date' },
+];
+
+/**
+ * Rough text-to-speech duration for a reply
+ */
+export function estimateSpokenSeconds(text: string, speed: number = 1, wordsPerMinute: number = DEFAULT_WORDS_PER_MINUTE): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return (words / (wordsPerMinute * (speed > 0 ? speed : 1))) * 60;
+}
+
+/**
+ * What a caller hears of a reply before cutting in after the given milliseconds; the whole reply if it finished
+ */
+export function spokenBefore(text: string, ms: number, speed: number = 1, wordsPerMinute: number = DEFAULT_WORDS_PER_MINUTE): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const heard = Math.floor((ms / 60000) * wordsPerMinute * (speed > 0 ? speed : 1));
+  return heard >= words.length ? text : `${words.slice(0, heard).join(' ')}…`;
+}
+
+function countMatches(text: string, pattern: RegExp): string[] {
+  return [...text.matchAll(pattern)].map(m => m[0]);
+}
+
+function sentences(text: string): string[] {
+  return text
+    .replace(BULLET_PATTERN, '')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => /\w/.test(s));
+}
+
+/**
+ * Deterministic speech-friendliness checks for one agent reply
+ */
+export function analyzeVoiceTurn(
+  text: string,
+  turnIndex: number,
+  options: { speed?: number; wordsPerMinute?: number } = {}
+): VoiceTurnMetrics {
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  const spokenSeconds = estimateSpokenSeconds(text, options.speed, options.wordsPerMinute);
+  const sentenceLengths = sentences(text).map(s => s.split(/\s+/).filter(Boolean).length);
+  const maxSentenceWords = Math.max(0, ...sentenceLengths);
+  const avgSentenceWords = sentenceLengths.length > 0
+    ? sentenceLengths.reduce((sum, n) => sum + n, 0) / sentenceLengths.length
+    : 0;
+
+  const markdownCount = countMatches(text, MARKDOWN_PATTERN).length;
+  const bulletCount = countMatches(text, BULLET_PATTERN).length;
+  const emojiCount = countMatches(text, EMOJI_PATTERN).length;
+  const urlCount = countMatches(text, URL_PATTERN).length;
+  const unreadable: string[] = [];
+  const numberIssues = new Set<string>();
+  for (const rule of NUMBER_READABILITY_RULES) {
+    for (const match of countMatches(text, rule.pattern)) {
+      if (!unreadable.includes(match)) {
+        unreadable.push(match);
+        numberIssues.add(rule.issue);
+      }
+    }
+  }
+
+  const issues: string[] = [];
+  let penalty = 0;
+  if (bulletCount > 0) {
+    issues.push(`${bulletCount} bullet/list item(s)`);
+    penalty += 0.25;
+  }
+  if (markdownCount > 0) {
+    issues.push(`${markdownCount} markdown element(s)`);
+    penalty += 0.2;
+  }
+  if (emojiCount > 0) {
+    issues.push(`${emojiCount} emoji`);
+    penalty += 0.15;
+  }
+  if (urlCount > 0) {
+    issues.push(`${urlCount} URL(s)`);
+    penalty += 0.15;
+  }
+  if (maxSentenceWords > MAX_COMFORTABLE_SENTENCE_WORDS) {
+    issues.push(`longest sentence is ${maxSentenceWords} words`);
+    penalty += 0.1;
+  }
+  if (spokenSeconds > MAX_COMFORTABLE_SPOKEN_SECONDS) {
+    issues.push(`~${spokenSeconds.toFixed(0)}s to speak`);
+    penalty += 0.15;
+  }
+  if (unreadable.length > 0) {
+    issues.push(`hard-to-read numbers: ${unreadable.slice(0, 3).join(', ')} (${[...numberIssues].join('; ')})`);
+    penalty += Math.min(0.2, 0.05 * unreadable.length);
+  }
+
+  return {
+    turnIndex,
+    wordCount,
+    spokenSeconds,
+    sentenceCount: sentenceLengths.length,
+    avgSentenceWords,
+    maxSentenceWords,
+    markdownCount,
+    bulletCount,
+    emojiCount,
+    urlCount,
+    unreadableNumbers: unreadable,
+    issues,
+    score: Math.max(0, 1 - penalty),
+  };
+}
+
+/**
+ * Analyze every agent reply in a conversation
+ */
+export function analyzeVoiceConversation(
+  conversation: Array<{ role: 'user' | 'assistant'; content: string }>,
+  options: { speed?: number; wordsPerMinute?: number } = {}
+): VoiceTurnMetrics[] {
+  return conversation
+    .filter(turn => turn.role === 'assistant')
+    .map((turn, i) => analyzeVoiceTurn(turn.content, i, options));
+}
+
+/**
+ * Roll per-turn voice metrics up into one run-level summary
+ */
+export function summarizeVoiceMetrics(turns: VoiceTurnMetrics[]): VoiceMetricsSummary {
+  const avg = (pick: (t: VoiceTurnMetrics) => number) =>
+    turns.length > 0 ? turns.reduce((sum, t) => sum + pick(t), 0) / turns.length : 0;
+
+  return {
+    turns: turns.length,
+    averageSpokenSeconds: avg(t => t.spokenSeconds),
+    maxSpokenSeconds: Math.max(0, ...turns.map(t => t.spokenSeconds)),
+    averageSentenceWords: avg(t => t.avgSentenceWords),
+    turnsWithFormatting: turns.filter(t => t.markdownCount + t.bulletCount + t.emojiCount + t.urlCount > 0).length,
+    unreadableNumbers: turns.reduce((sum, t) => sum + t.unreadableNumbers.length, 0),
+    score: turns.length > 0 ? avg(t => t.score) : 1,
+  };
+}
@@ -1,7 +1,12 @@
 import { Worker, Job, ConnectionOptions } from 'bullmq';
 import IORedis from 'ioredis';
 import { config } from '../config/index.js';
-import { JobData, JobResult } from './queue.js';
+import { JobData, JobResult, isCancelRequested } from './queue.js';
+import { TestSuiteModel } from '../models/index.js';
+import { optimizerService } from '../services/OptimizerService.js';
+import { highLevelClient } from '../services/HighLevelClient.js';
+import { publishJobEvent } from './jobEvents.js';
+import { JobPhase, JobProgress, JobEventType, JobEventPayload } from '../types/index.js';
 
 // Redis connection for worker
 const redisConnection = new IORedis(config.REDIS_URL, {
@@ -10,29 +15,74 @@ const redisConnection = new IORedis(config.REDIS_URL, {
 });
 const connection = redisConnection as unknown as ConnectionOptions;
 
-// Job processor - will be implemented with actual services later
+// Job processor - runs the suite's tests or the full optimization loop
 async function processJob(job: Job<JobData, JobResult>): Promise<JobResult> {
   console.log(`🔄 Processing job ${job.id} of type ${job.data.type}`);
 
+  // Progress writes and events are fire-and-forget so a slow Redis never holds up the run
+  const onEvent = (event: JobEventPayload) => {
+    publishJobEvent(job.id!, event);
+  };
+  const onProgress = (progress: JobProgress) => {
+    job.updateProgress(progress).catch(error => console.error(`❌ Job ${job.id} progress update failed:`, error));
+    onEvent({ type: JobEventType.PROGRESS, ...progress });
+  };
+  const shouldCancel = () => isCancelRequested(job.id!);
+  // BullMQ re-runs a stalled job under the same id; the job id lets the retry continue the earlier attempt's runs
+  const jobId = job.id!;
+
   try {
+    // Cancelled while still waiting in the queue
+    if (await shouldCancel()) {
+      console.log(`⛔ Job ${job.id} cancelled before it started`);
+      return { success: true, cancelled: true };
+    }
+
+    const suite = await TestSuiteModel.findById(job.data.suiteId);
+    if (!suite) {
+      throw new Error('Test suite not found');
+    }
+
     switch (job.data.type) {
-      case 'test-execution':
-        // Will be implemented in TestExecutorService
-        await job.updateProgress(10);
+      case 'test-execution': {
         console.log(`📋 Test execution job for suite ${job.data.suiteId}`);
-        
-        // Placeholder - actual implementation will call TestExecutorService
-        await job.updateProgress(100);
-        return { success: true, data: { message: 'Test execution placeholder' } };
-
-      case 'optimization-loop':
-        // Will be implemented in OptimizationService
-        await job.updateProgress(10);
+        const results = job.data.resumeExecutionId
+          ? await optimizerService.resumeExecution(job.data.resumeExecutionId, { onProgress, onEvent, shouldCancel, jobId })
+          : await optimizerService.executeTests(suite.agentId, suite.testCases, {
+              ...job.data.options,
+              suiteId: suite.id,
+              globalCriteria: suite.globalCriteria,
+              dataToCollect: suite.dataToCollect,
+              onProgress,
+              onEvent,
+              shouldCancel,
+              jobId,
+            });
+        const agent = await highLevelClient.getAgent(suite.agentId);
+
+        await job.updateProgress({ phase: JobPhase.DONE, percent: 100 });
+        return { success: true, cancelled: results.cancelled, data: { results, currentPrompt: agent.systemPrompt } };
+      }
+
+      case 'optimization-loop': {
         console.log(`🔧 Optimization job for suite ${job.data.suiteId}`);
-        
-        // Placeholder - actual implementation will call OptimizationService
-        await job.updateProgress(100);
-        return { success: true, data: { message: 'Optimization placeholder' } };
+        const originalPrompt = job.data.originalPrompt ?? (await highLevelClient.getAgent(suite.agentId)).systemPrompt;
+        if (!job.data.originalPrompt) {
+          await job.updateData({ ...job.data, originalPrompt });
+        }
+        const result = await optimizerService.optimize(suite.agentId, suite.id, job.data.maxIterations, {
+          ...job.data.options,
+          targetScore: job.data.targetScore,
+          originalPrompt,
+          onProgress,
+          onEvent,
+          shouldCancel,
+          jobId,
+        });
+
+        await job.updateProgress({ phase: JobPhase.DONE, percent: 100 });
+        return { success: true, cancelled: result.cancelled, data: result };
+      }
 
       default:
         throw new Error(`Unknown job type: ${(job.data as JobData).type}`);
@@ -53,6 +103,7 @@ export const worker = new Worker<JobData, JobResult>(
   processJob,
   {
     connection,
+    autorun: false, // Started by startWorker once the database is connected
     concurrency: 3, // Process up to 3 jobs concurrently
     limiter: {
       max: 10,
@@ -61,19 +112,35 @@ export const worker = new Worker<JobData, JobResult>(
   }
 );
 
-// Worker event handlers
+// Worker event handlers; the terminal job event goes out once the job's state is final
 worker.on('completed', (job, result) => {
   console.log(`✅ Worker completed job ${job.id}`);
+  publishJobEvent(job.id!, !result.success
+    ? { type: JobEventType.JOB_FAILED, error: result.error || 'Unknown error' }
+    : result.cancelled
+      ? { type: JobEventType.JOB_CANCELLED, result: result.data }
+      : { type: JobEventType.JOB_COMPLETED, result: result.data });
 });
 
+// Also fired when a job stalled more times than BullMQ retries it; its runs can then only be resumed by hand
 worker.on('failed', (job, error) => {
   console.error(`❌ Worker failed job ${job?.id}:`, error.message);
+  if (!job) return;
+  publishJobEvent(job.id!, { type: JobEventType.JOB_FAILED, error: error.message });
+  optimizerService.markInterruptedExecutions(job.id!)
+    .catch(err => console.error(`❌ Failed to mark job ${job.id} executions as interrupted:`, err));
 });
 
 worker.on('error', (error) => {
   console.error('❌ Worker error:', error);
 });
 
+// Start processing jobs; run() only settles when the worker closes
+export function startWorker(): void {
+  worker.run().catch(error => console.error('❌ Worker stopped:', error));
+  console.log('👷 Worker started');
+}
+
 // Cleanup function
 export async function closeWorker(): Promise<void> {
   await worker.close();
@@ -18,6 +18,8 @@ export default function App() {
     currentPrompt,
     conversations,
     hasOptimized,
+    jobProgress,
+    testsScored,
     startOptimization,
     stopOptimization,
     reset,
@@ -70,7 +72,7 @@ export default function App() {
           <div 
             style={{ 
               ...styles.progressFill, 
-              width: `${Math.min(currentScore * 100, 100)}%` 
+              width: `${Math.min(jobProgress.percent, 100)}%` 
             }} 
           />
         </div>
@@ -83,6 +85,9 @@ export default function App() {
           currentIteration={currentIteration}
           maxIterations={maxIterations}
           testCaseCount={testSuite?.testCases.length || 0}
+          testsScored={testsScored}
+          progress={jobProgress.percent}
+          jobPhase={jobProgress.phase}
         />
       )}
 
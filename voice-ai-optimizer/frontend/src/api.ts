@@ -1,13 +1,88 @@
 import axios from 'axios';
-import { TestSuite, OptimizationResult, TestResults } from './types';
+import { TestSuite, OptimizationResult, TestResults, JobEvent, JobStatusResponse } from './types';
 
 const API_BASE = '/api';
+// How often to poll a job's status once its event stream is gone
+const JOB_POLL_INTERVAL_MS = 2000;
+const FINISHED_JOB_STATUSES = ['completed', 'failed', 'cancelled'];
 
 export interface ExecuteTestsResponse {
   results: TestResults;
   currentPrompt: string;
 }
 
+export type JobEventHandler = (event: JobEvent) => void;
+
+export interface JobHandlers {
+  onQueued?: (jobId: string) => void;
+  onEvent?: JobEventHandler;
+}
+
+/**
+ * Follow a queued job's event stream until it finishes; aborting the signal closes the stream.
+ * EventSource reconnects by itself and the server resumes after the last event it sent.
+ * If the browser gives up on the stream (e.g. a 404 or 500), the job's status is polled instead.
+ * A job cancelled mid-run resolves with its partial results, which are marked cancelled.
+ */
+function followJob<T>(jobId: string, signal?: AbortSignal, onEvent?: JobEventHandler): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`${API_BASE}/jobs/${jobId}/events`);
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    const stop = () => {
+      source.close();
+      clearTimeout(pollTimer);
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      stop();
+      reject(new Error('Stopped by user'));
+    };
+    if (signal?.aborted) return abort();
+    signal?.addEventListener('abort', abort);
+
+    const poll = async () => {
+      try {
+        const response = await axios.get<JobStatusResponse>(`${API_BASE}/jobs/${jobId}`, { signal });
+        const { status, result, error } = response.data;
+        if (!FINISHED_JOB_STATUSES.includes(status)) {
+          pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+          return;
+        }
+        stop();
+        if (status === 'failed') reject(new Error(error || 'Job failed'));
+        else if (result) resolve(result as T);
+        else reject(new Error(status === 'cancelled' ? 'Stopped by user' : 'Job finished without a result'));
+      } catch (error) {
+        if (signal?.aborted) return;
+        stop();
+        reject(error);
+      }
+    };
+
+    source.onmessage = (message) => {
+      const event: JobEvent = JSON.parse(message.data);
+      onEvent?.(event);
+      if (event.type === 'job-completed') {
+        stop();
+        resolve(event.result as T);
+      } else if (event.type === 'job-cancelled') {
+        stop();
+        if (event.result) resolve(event.result as T);
+        else reject(new Error('Stopped by user'));
+      } else if (event.type === 'job-failed') {
+        stop();
+        reject(new Error(event.error));
+      }
+    };
+    // While CONNECTING the browser is retrying by itself; CLOSED means it gave up for good
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED || pollTimer !== undefined) return;
+      source.close();
+      pollTimer = setTimeout(poll, 0);
+    };
+  });
+}
+
 export interface OptimizedPromptResponse {
   success: boolean;
   hasOptimized: boolean;
@@ -35,25 +110,33 @@ export const api = {
     return response.data.testSuite;
   },
 
-  async executeTests(suiteId: string, signal?: AbortSignal): Promise<ExecuteTestsResponse> {
+  async executeTests(suiteId: string, signal?: AbortSignal, handlers: JobHandlers = {}): Promise<ExecuteTestsResponse> {
     const response = await axios.post(
       `${API_BASE}/test-suites/${suiteId}/execute`,
       {},
       { signal }
     );
-    return {
-      results: response.data.results,
-      currentPrompt: response.data.currentPrompt,
-    };
+    handlers.onQueued?.(response.data.jobId);
+    return followJob<ExecuteTestsResponse>(response.data.jobId, signal, handlers.onEvent);
   },
 
-  async optimize(suiteId: string, maxIterations: number, signal?: AbortSignal): Promise<OptimizationResult> {
+  async optimize(
+    suiteId: string,
+    maxIterations: number,
+    signal?: AbortSignal,
+    handlers: JobHandlers = {}
+  ): Promise<OptimizationResult> {
     const response = await axios.post(
       `${API_BASE}/test-suites/${suiteId}/optimize`,
       { maxIterations },
       { signal }
     );
-    return response.data.result;
+    handlers.onQueued?.(response.data.jobId);
+    return followJob<OptimizationResult>(response.data.jobId, signal, handlers.onEvent);
+  },
+
+  async cancelJob(jobId: string): Promise<void> {
+    await axios.post(`${API_BASE}/jobs/${jobId}/cancel`);
   },
 
   async getOptimizedPrompt(agentId: string): Promise<OptimizedPromptResponse> {
@@ -1,5 +1,5 @@
 import React from 'react';
-import { styles } from '../styles';
+import { TurnResult, VoiceTurnMetrics, FactViolation, ComplianceFinding, SlotResult, AgentAction } from '../types';
 
 interface ConversationTurn {
   role: 'user' | 'assistant';
@@ -12,6 +12,15 @@ interface TestConversation {
   passed: boolean;
   score: number;
   reasoning: string;
+  turnResults?: TurnResult[];
+  needsReview?: boolean;
+  flaky?: boolean;
+  voiceMetrics?: VoiceTurnMetrics[];
+  factViolations?: FactViolation[];
+  complianceFindings?: ComplianceFinding[];
+  slots?: SlotResult[];
+  actions?: AgentAction[];
+  turnLatencies?: number[];
 }
 
 interface ConversationPanelProps {
@@ -19,6 +28,13 @@ interface ConversationPanelProps {
   conversations: TestConversation[];
 }
 
+const SLOT_STATUS_ICONS: Record<SlotResult['status'], string> = {
+  confirmed: '✓',
+  unconfirmed: '⚠️ unconfirmed',
+  unanswered: '… unanswered',
+  missing: '✗ missing',
+};
+
 const conversationStyles: Record<string, React.CSSProperties> = {
   container: {
     marginBottom: '20px',
@@ -74,6 +90,10 @@ const conversationStyles: Record<string, React.CSSProperties> = {
     background: '#FEE2E2',
     color: '#991B1B',
   },
+  reviewBadge: {
+    background: '#FEF3C7',
+    color: '#92400E',
+  },
   conversationBox: {
     marginBottom: '12px',
   },
@@ -101,6 +121,45 @@ const conversationStyles: Record<string, React.CSSProperties> = {
     marginBottom: '4px',
     color: '#666',
   },
+  expectedBox: {
+    marginTop: '8px',
+    padding: '8px 10px',
+    background: 'white',
+    borderRadius: '6px',
+    fontSize: '12px',
+    color: '#555',
+    border: '1px dashed #d1d5db',
+  },
+  latency: {
+    fontWeight: 400,
+    color: '#6B7280',
+  },
+  factViolation: {
+    marginTop: '6px',
+    fontSize: '11px',
+    color: '#991B1B',
+  },
+  action: {
+    marginTop: '6px',
+    fontSize: '11px',
+    fontFamily: 'monospace',
+    color: '#1E40AF',
+  },
+  slotList: {
+    marginTop: '8px',
+    fontSize: '11px',
+    color: '#374151',
+  },
+  voiceIssues: {
+    marginTop: '6px',
+    fontSize: '11px',
+    color: '#92400E',
+  },
+  turnScore: {
+    float: 'right',
+    fontSize: '11px',
+    fontWeight: 600,
+  },
   reasoningBox: {
     padding: '10px 12px',
     background: '#FEF3C7',
@@ -155,6 +214,16 @@ export const ConversationPanel: React.FC<ConversationPanelProps> = ({
                   <span style={{ fontSize: '13px', color: '#666' }}>
                     Score: {(test.score * 100).toFixed(0)}%
                   </span>
+                  {test.flaky && (
+                    <span style={{ ...conversationStyles.badge, ...conversationStyles.reviewBadge }}>
+                      🎲 Flaky
+                    </span>
+                  )}
+                  {test.needsReview && (
+                    <span style={{ ...conversationStyles.badge, ...conversationStyles.reviewBadge }}>
+                      🔍 Needs review
+                    </span>
+                  )}
                   <span style={{
                     ...conversationStyles.badge,
                     ...(test.passed ? conversationStyles.passBadge : conversationStyles.failBadge)
@@ -165,20 +234,88 @@ export const ConversationPanel: React.FC<ConversationPanelProps> = ({
               </div>
 
               <div style={conversationStyles.conversationBox}>
-                {test.conversation.map((turn, turnIdx) => (
-                  <div
-                    key={turnIdx}
-                    style={{
-                      ...conversationStyles.turn,
-                      ...(turn.role === 'user' ? conversationStyles.userTurn : conversationStyles.agentTurn)
-                    }}
-                  >
-                    <div style={conversationStyles.roleLabel}>
-                      {turn.role === 'user' ? '👤 User' : '🤖 Agent'}
+                {test.conversation.map((turn, turnIdx) => {
+                  // Agent replies answer user turns in order, so the reply count is the turn index
+                  const replyIndex = test.conversation.slice(0, turnIdx).filter(t => t.role === 'user').length - 1;
+                  const turnResult = turn.role === 'assistant'
+                    ? test.turnResults?.find(r => r.turnIndex === replyIndex)
+                    : undefined;
+                  const voice = turn.role === 'assistant'
+                    ? test.voiceMetrics?.find(v => v.turnIndex === replyIndex)
+                    : undefined;
+                  const facts = turn.role === 'assistant'
+                    ? (test.factViolations || []).filter(v => v.turnIndex === replyIndex)
+                    : [];
+                  const violations = turn.role === 'assistant'
+                    ? (test.complianceFindings || []).filter(f => f.turnIndex === replyIndex)
+                    : [];
+                  const actions = turn.role === 'assistant'
+                    ? (test.actions || []).filter(a => a.turnIndex === replyIndex)
+                    : [];
+
+                  return (
+                    <div
+                      key={turnIdx}
+                      style={{
+                        ...conversationStyles.turn,
+                        ...(turn.role === 'user' ? conversationStyles.userTurn : conversationStyles.agentTurn),
+                        ...(turnResult && !turnResult.passed ? { borderLeftColor: '#EF4444' } : {}),
+                      }}
+                    >
+                      <div style={conversationStyles.roleLabel}>
+                        {turn.role === 'user' ? '👤 User' : '🤖 Agent'}
+                        {turn.role === 'assistant' && test.turnLatencies?.[replyIndex] !== undefined && (
+                          <span style={conversationStyles.latency}> · ⏱️ {test.turnLatencies[replyIndex]}ms</span>
+                        )}
+                      </div>
+                      {turn.content}
+                      {actions.map((action, i) => (
+                        <div key={i} style={conversationStyles.action}>
+                          ⚙️ {action.type}({Object.entries(action.args).map(([key, value]) => `${key}: ${value}`).join(', ')})
+                        </div>
+                      ))}
+                      {voice && voice.issues.length > 0 && (
+                        <div style={conversationStyles.voiceIssues}>
+                          🔊 {voice.issues.join(' · ')}
+                        </div>
+                      )}
+                      {facts.map((fact, i) => (
+                        <div key={i} style={conversationStyles.factViolation}>
+                          🧾 {fact.message}
+                        </div>
+                      ))}
+                      {violations.map((finding, i) => (
+                        <div key={i} style={conversationStyles.factViolation}>
+                          🛡️ {finding.requirement}: {finding.message}
+                        </div>
+                      ))}
+                      {turnResult && (
+                        <div style={conversationStyles.expectedBox}>
+                          <span style={{
+                            ...conversationStyles.turnScore,
+                            color: turnResult.passed ? '#065F46' : '#991B1B',
+                          }}>
+                            {turnResult.passed ? '✓' : '✗'} {(turnResult.score * 100).toFixed(0)}% match
+                          </span>
+                          <strong>Expected:</strong> {turnResult.expected}
+                          {turnResult.reasoning && (
+                            <div style={{ marginTop: '4px', fontStyle: 'italic' }}>{turnResult.reasoning}</div>
+                          )}
+                        </div>
+                      )}
                     </div>
-                    {turn.content}
+                  );
+                })}
+                {(test.complianceFindings || []).filter(f => f.turnIndex === undefined).map((finding, i) => (
+                  <div key={i} style={conversationStyles.factViolation}>
+                    🛡️ {finding.requirement}: {finding.message}
                   </div>
                 ))}
+                {test.slots && test.slots.length > 0 && (
+                  <div style={conversationStyles.slotList}>
+                    📋 {test.slots.map(slot => `${SLOT_STATUS_ICONS[slot.status]} ${slot.slot}${slot.value ? ` (${slot.value})` : ''}`).join(' · ')}
+                  </div>
+                )}
               </div>
 
               <div style={conversationStyles.reasoningBox}>
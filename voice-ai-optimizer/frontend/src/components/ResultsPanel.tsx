@@ -1,5 +1,5 @@
 import React from 'react';
-import { OptimizationResult } from '../types';
+import { OptimizationResult, ScoreInterval } from '../types';
 import { styles } from '../styles';
 
 interface ResultsPanelProps {
@@ -33,6 +33,31 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({ result }) => {
         </div>
       </div>
 
+      {/* Statistical Significance */}
+      {result.significance && (
+        <div style={{
+          marginTop: '16px',
+          padding: '16px',
+          borderRadius: '8px',
+          background: result.significance.significant ? '#F0FDF4' : '#FEF3C7',
+        }}>
+          <h3 style={{ marginBottom: '8px', color: result.significance.significant ? '#065F46' : '#92400E' }}>
+            {result.significance.significant ? '✓ Significant improvement' : '⚠️ Not statistically significant'}
+          </h3>
+          <p style={{ fontSize: '13px', color: '#374151' }}>
+            Score change {formatInterval(result.significance.difference)} ({result.significance.confidenceLevel * 100}% CI)
+            {' · '}{result.significance.mcnemar.improved} fixed / {result.significance.mcnemar.regressed} broken
+            {' · '}McNemar p = {result.significance.mcnemar.pValue.toFixed(3)}
+            {' · '}{result.significance.pairedTests} paired tests
+          </p>
+          {!result.significance.significant && (
+            <p style={{ fontSize: '12px', color: '#92400E', marginTop: '4px' }}>
+              The optimized prompt was not saved. Add more test cases or use repeated runs to measure smaller effects.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Performance Metrics */}
       {result.metrics && (
         <div style={{ marginTop: '16px', padding: '16px', background: '#F0FDF4', borderRadius: '8px' }}>
@@ -46,6 +71,49 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({ result }) => {
         </div>
       )}
 
+      {/* Voice Quality */}
+      {result.metrics?.voice && result.metrics.voice.turns > 0 && (
+        <div style={{ marginTop: '16px', padding: '16px', background: '#EFF6FF', borderRadius: '8px' }}>
+          <h3 style={{ marginBottom: '12px', color: '#1E40AF' }}>🔊 Voice Quality</h3>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '12px' }}>
+            <MetricBar label="Speech-friendly" value={result.metrics.voice.score} />
+            <VoiceStat label="Replies with formatting" value={`${result.metrics.voice.turnsWithFormatting}/${result.metrics.voice.turns}`} />
+            <VoiceStat label="Longest reply" value={`~${result.metrics.voice.maxSpokenSeconds.toFixed(0)}s`} />
+            <VoiceStat label="Hard-to-read numbers" value={String(result.metrics.voice.unreadableNumbers)} />
+          </div>
+        </div>
+      )}
+
+      {/* Compliance */}
+      {result.metrics?.compliance && (
+        <div style={{ marginTop: '16px', padding: '16px', background: '#FEF2F2', borderRadius: '8px' }}>
+          <h3 style={{ marginBottom: '12px', color: '#991B1B' }}>🛡️ Compliance</h3>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '12px' }}>
+            <MetricBar label="Overall" value={result.metrics.compliance.score} />
+            {result.metrics.compliance.requirements.map(r => (
+              <MetricBar
+                key={r.requirement}
+                label={`${r.requirement}${r.violations > 0 ? ` (${r.violations} violation${r.violations === 1 ? '' : 's'})` : ''}`}
+                value={r.score}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Response Latency */}
+      {result.metrics?.latency && result.metrics.latency.samples > 0 && (
+        <div style={{ marginTop: '16px', padding: '16px', background: '#EFF6FF', borderRadius: '8px' }}>
+          <h3 style={{ marginBottom: '12px', color: '#1E40AF' }}>⏱️ Response Latency</h3>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '12px' }}>
+            <VoiceStat label="p50" value={`${result.metrics.latency.p50}ms`} />
+            <VoiceStat label="p95" value={`${result.metrics.latency.p95}ms`} />
+            <VoiceStat label="Max" value={`${result.metrics.latency.max}ms`} />
+            <VoiceStat label="Replies timed" value={String(result.metrics.latency.samples)} />
+          </div>
+        </div>
+      )}
+
       {/* Changes Made */}
       {result.changes.length > 0 && (
         <div style={{ marginTop: '16px' }}>
@@ -77,6 +145,18 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({ result }) => {
   );
 };
 
+const formatInterval = (interval: ScoreInterval): string => {
+  const pct = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(1)}%`;
+  return `${pct(interval.mean)} [${pct(interval.low)}, ${pct(interval.high)}]`;
+};
+
+const VoiceStat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <div style={{ fontSize: '12px', color: '#374151', marginBottom: '4px' }}>{label}</div>
+    <div style={{ fontSize: '16px', fontWeight: 600, color: '#1E40AF' }}>{value}</div>
+  </div>
+);
+
 const MetricBar: React.FC<{ label: string; value: number }> = ({ label, value }) => {
   const percentage = Math.round(value * 100);
   const color = percentage >= 70 ? '#10B981' : percentage >= 40 ? '#F59E0B' : '#EF4444';
@@ -6,6 +6,9 @@ interface StatsPanelProps {
   currentIteration: number;
   maxIterations: number;
   testCaseCount: number;
+  testsScored: number;
+  progress: number;
+  jobPhase?: string;
 }
 
 export const StatsPanel: React.FC<StatsPanelProps> = ({
@@ -13,6 +16,9 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
   currentIteration,
   maxIterations,
   testCaseCount,
+  testsScored,
+  progress,
+  jobPhase,
 }) => {
   return (
     <div style={styles.statsGrid}>
@@ -31,8 +37,12 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
         <div style={styles.statLabel}>Max Iterations</div>
       </div>
       <div style={styles.statCard}>
-        <div style={styles.statValue}>{testCaseCount}</div>
-        <div style={styles.statLabel}>Test Cases</div>
+        <div style={styles.statValue}>{testsScored}/{testCaseCount}</div>
+        <div style={styles.statLabel}>Tests Scored</div>
+      </div>
+      <div style={styles.statCard}>
+        <div style={styles.statValue}>{progress}%</div>
+        <div style={styles.statLabel}>{jobPhase ? `Progress · ${jobPhase}` : 'Progress'}</div>
       </div>
     </div>
   );
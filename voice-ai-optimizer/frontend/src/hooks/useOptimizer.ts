@@ -1,6 +1,16 @@
 import { useState, useRef, useCallback } from 'react';
 import { api } from '../api';
-import { Phase, LogEntry, TestSuite, OptimizationResult, TestCase, Evaluation, TestConversation } from '../types';
+import { Phase, LogEntry, TestSuite, OptimizationResult, TestCase, Evaluation, TestConversation, JobEvent } from '../types';
+
+const JOB_PHASE_LABELS: Record<string, string> = {
+  queued: 'Waiting in queue...',
+  testing: 'Running tests...',
+  'initial-tests': 'Running baseline tests...',
+  optimizing: 'Analyzing failures and generating an optimized prompt...',
+  retesting: 'Re-running tests with the candidate prompt...',
+  'final-tests': 'Running final tests...',
+};
+const MAX_LOGGED_REPLY_LENGTH = 80;
 
 interface UseOptimizerReturn {
   phase: Phase;
@@ -12,6 +22,8 @@ interface UseOptimizerReturn {
   currentPrompt: string;
   conversations: TestConversation[];
   hasOptimized: boolean;
+  jobProgress: { phase?: string; percent: number };
+  testsScored: number;
   startOptimization: (agentId: string, maxIterations: number) => Promise<void>;
   stopOptimization: () => void;
   reset: () => void;
@@ -30,15 +42,67 @@ export const useOptimizer = (): UseOptimizerReturn => {
   const [currentPrompt, setCurrentPrompt] = useState('');
   const [conversations, setConversations] = useState<TestConversation[]>([]);
   const [hasOptimized, setHasOptimized] = useState(false);
+  const [jobProgress, setJobProgress] = useState<{ phase?: string; percent: number }>({ percent: 0 });
+  const [testsScored, setTestsScored] = useState(0);
   
   const abortControllerRef = useRef<AbortController | null>(null);
   const shouldStopRef = useRef(false);
+  const jobPhaseRef = useRef<string | undefined>(undefined);
+  const activeJobRef = useRef<string | null>(null);
 
   const addLog = useCallback((message: string, type: LogEntry['type'] = 'info') => {
     const timestamp = new Date().toLocaleTimeString();
     setLogs(prev => [...prev, { timestamp, message, type }]);
   }, []);
 
+  // Remember the running job so Stop can cancel it on the server
+  const trackJob = useCallback((jobId: string) => {
+    activeJobRef.current = jobId;
+  }, []);
+
+  // Live events from a running job drive the log and stats
+  const handleJobEvent = useCallback((event: JobEvent) => {
+    switch (event.type) {
+      case 'progress':
+        setJobProgress({ phase: event.phase, percent: event.percent });
+        if (event.phase !== jobPhaseRef.current) {
+          jobPhaseRef.current = event.phase;
+          setTestsScored(0);
+          if (JOB_PHASE_LABELS[event.phase]) addLog(JOB_PHASE_LABELS[event.phase], 'info');
+        }
+        break;
+      case 'test-started':
+        addLog(`  ▶ ${event.testCaseName}${event.runs > 1 ? ` (run ${event.run}/${event.runs})` : ''}`, 'info');
+        break;
+      case 'turn-completed': {
+        const reply = event.agentResponse.length > MAX_LOGGED_REPLY_LENGTH
+          ? `${event.agentResponse.slice(0, MAX_LOGGED_REPLY_LENGTH - 1)}…`
+          : event.agentResponse;
+        addLog(`    ↳ Turn ${event.turnIndex + 1} (${event.latencyMs}ms): ${reply}`, 'info');
+        break;
+      }
+      case 'evaluation-scored':
+        setTestsScored(n => n + 1);
+        addLog(
+          `  ${event.passed ? '✓' : '✗'} ${event.testCaseName}: ${(event.score * 100).toFixed(0)}%${event.flaky ? ' (flaky)' : ''}`,
+          event.passed ? 'success' : 'error'
+        );
+        break;
+      case 'prompt-candidate':
+        setCurrentPrompt(event.prompt);
+        addLog(`Prompt candidate with ${event.changes.length} change${event.changes.length === 1 ? '' : 's'}:`, 'info');
+        event.changes.forEach(change => addLog(`  • [${change.type}] ${change.description}`, 'info'));
+        break;
+      case 'iteration-finished':
+        setCurrentScore(event.score);
+        addLog(
+          `Candidate scored ${(event.score * 100).toFixed(0)}% (best ${(event.bestScore * 100).toFixed(0)}%)`,
+          event.improved ? 'success' : 'warning'
+        );
+        break;
+    }
+  }, [addLog]);
+
   const checkOptimizationStatus = useCallback(async (agentId: string) => {
     try {
       const response = await api.getOptimizedPrompt(agentId);
@@ -75,6 +139,15 @@ export const useOptimizer = (): UseOptimizerReturn => {
         passed: ev.passed,
         score: ev.overallScore,
         reasoning: ev.reasoning,
+        turnResults: ev.turnResults,
+        needsReview: ev.needsReview,
+        flaky: ev.stability?.flaky,
+        voiceMetrics: ev.voiceMetrics,
+        factViolations: ev.factViolations,
+        slots: ev.slots,
+        actions: ev.actions,
+        complianceFindings: ev.compliance?.requirements.flatMap(r => r.findings),
+        turnLatencies: ev.turnLatencies,
       }));
       setConversations(convos);
 
@@ -136,6 +209,9 @@ export const useOptimizer = (): UseOptimizerReturn => {
     setCurrentScore(0);
     setCurrentPrompt('');
     setConversations([]);
+    setJobProgress({ percent: 0 });
+    setTestsScored(0);
+    jobPhaseRef.current = undefined;
     shouldStopRef.current = false;
     abortControllerRef.current = new AbortController();
 
@@ -167,8 +243,10 @@ export const useOptimizer = (): UseOptimizerReturn => {
       const suiteId = suite._id || suite.id;
       const { results: initialResults, currentPrompt: prompt } = await api.executeTests(
         suiteId, 
-        abortControllerRef.current.signal
+        abortControllerRef.current.signal,
+        { onQueued: trackJob, onEvent: handleJobEvent }
       );
+      activeJobRef.current = null;
       
       setCurrentPrompt(prompt);
       const initialScore = initialResults.overallScore;
@@ -181,16 +259,25 @@ export const useOptimizer = (): UseOptimizerReturn => {
         passed: ev.passed,
         score: ev.overallScore,
         reasoning: ev.reasoning,
+        turnResults: ev.turnResults,
+        needsReview: ev.needsReview,
+        flaky: ev.stability?.flaky,
+        voiceMetrics: ev.voiceMetrics,
+        factViolations: ev.factViolations,
+        slots: ev.slots,
+        actions: ev.actions,
+        complianceFindings: ev.compliance?.requirements.flatMap(r => r.findings),
+        turnLatencies: ev.turnLatencies,
       }));
       setConversations(convos);
       
       addLog(`Initial Score: ${(initialScore * 100).toFixed(0)}%`, initialScore >= 0.95 ? 'success' : 'warning');
       addLog(`Pass Rate: ${(initialResults.passRate * 100).toFixed(0)}%`, 'info');
-      
-      initialResults.evaluations.forEach((ev: Evaluation, i: number) => {
-        const tc = suite.testCases[i];
-        addLog(`  ${ev.passed ? '✓' : '✗'} ${tc?.name || 'Test'}: ${(ev.overallScore * 100).toFixed(0)}%`, ev.passed ? 'success' : 'error');
-      });
+
+      if (initialResults.cancelled) {
+        addLog(`Partial results: ${initialResults.evaluations.length}/${suite.testCases.length} tests finished`, 'warning');
+        throw new Error('Stopped by user');
+      }
 
       // Check if already at target (100%)
       if (initialScore >= 1.0) {
@@ -217,10 +304,13 @@ export const useOptimizer = (): UseOptimizerReturn => {
         addLog(`ITERATION ${iteration}/${maxIterations}: Optimizing`, 'step');
         addLog('═══════════════════════════════════════', 'step');
         
-        addLog('Analyzing failures with LLM...', 'info');
-        addLog('Generating optimized prompt...', 'info');
-        
-        lastOptimizationResult = await api.optimize(suiteId, 1, abortControllerRef.current.signal);
+        lastOptimizationResult = await api.optimize(
+          suiteId,
+          1,
+          abortControllerRef.current.signal,
+          { onQueued: trackJob, onEvent: handleJobEvent }
+        );
+        activeJobRef.current = null;
         const newScore = lastOptimizationResult.finalScore;
         setCurrentScore(newScore);
         setCurrentPrompt(lastOptimizationResult.optimizedPrompt);
@@ -232,16 +322,27 @@ export const useOptimizer = (): UseOptimizerReturn => {
           passed: ev.passed,
           score: ev.overallScore,
           reasoning: ev.reasoning,
+          turnResults: ev.turnResults,
+          needsReview: ev.needsReview,
+          flaky: ev.stability?.flaky,
+          voiceMetrics: ev.voiceMetrics,
+          factViolations: ev.factViolations,
+          slots: ev.slots,
+          actions: ev.actions,
+          complianceFindings: ev.compliance?.requirements.flatMap(r => r.findings),
+          turnLatencies: ev.turnLatencies,
         }));
         setConversations(newConvos);
+
+        if (lastOptimizationResult.cancelled) {
+          addLog(`Partial results: ${lastOptimizationResult.testResults.after.evaluations.length}/${suite.testCases.length} tests finished`, 'warning');
+          addLog('Candidate prompt discarded; the agent keeps its previous prompt', 'warning');
+          throw new Error('Stopped by user');
+        }
         
         addLog(`Score: ${(bestScore * 100).toFixed(0)}% → ${(newScore * 100).toFixed(0)}%`, newScore > bestScore ? 'success' : 'warning');
-        
-        if (lastOptimizationResult.changes.length > 0) {
-          addLog('Changes made:', 'info');
-          lastOptimizationResult.changes.forEach(change => {
-            addLog(`  • [${change.type}] ${change.description}`, 'info');
-          });
+        if (lastOptimizationResult.significance) {
+          addLog(`📐 ${lastOptimizationResult.significance.summary}`, lastOptimizationResult.significance.significant ? 'success' : 'warning');
         }
         
         if (newScore > bestScore) {
@@ -290,17 +391,26 @@ export const useOptimizer = (): UseOptimizerReturn => {
         addLog(`❌ Error: ${error.message}`, 'error');
         setPhase('idle');
       }
+    } finally {
+      activeJobRef.current = null;
     }
-  }, [addLog]);
+  }, [addLog, handleJobEvent, trackJob]);
 
   const stopOptimization = useCallback(() => {
     shouldStopRef.current = true;
-    abortControllerRef.current?.abort();
     setLogs(prev => [...prev, { 
       timestamp: new Date().toLocaleTimeString(), 
       message: 'Stopping optimization...', 
       type: 'warning' 
     }]);
+
+    const jobId = activeJobRef.current;
+    if (!jobId) {
+      abortControllerRef.current?.abort();
+      return;
+    }
+    // The server stops the job between turns and its stream delivers the partial results
+    api.cancelJob(jobId).catch(() => abortControllerRef.current?.abort());
   }, []);
 
   const reset = useCallback(() => {
@@ -312,6 +422,8 @@ export const useOptimizer = (): UseOptimizerReturn => {
     setCurrentScore(0);
     setCurrentPrompt('');
     setConversations([]);
+    setJobProgress({ percent: 0 });
+    setTestsScored(0);
   }, []);
 
   return {
@@ -324,6 +436,8 @@ export const useOptimizer = (): UseOptimizerReturn => {
     currentPrompt,
     conversations,
     hasOptimized,
+    jobProgress,
+    testsScored,
     startOptimization,
     stopOptimization,
     reset,
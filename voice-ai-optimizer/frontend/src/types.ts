@@ -17,6 +17,26 @@ export interface ConversationTurn {
   content: string;
 }
 
+export interface TurnResult {
+  turnIndex: number;
+  userMessage: string;
+  expected: string;
+  actual: string;
+  similarity: number;
+  llmScore?: number;
+  score: number;
+  passed: boolean;
+  reasoning?: string;
+}
+
+export interface TestStability {
+  runs: number;
+  passProbability: number;
+  scoreMean: number;
+  scoreVariance: number;
+  flaky: boolean;
+}
+
 export interface Evaluation {
   testCaseId: string;
   testCaseName?: string;
@@ -24,6 +44,69 @@ export interface Evaluation {
   overallScore: number;
   reasoning: string;
   conversation?: ConversationTurn[];
+  turnResults?: TurnResult[];
+  confidence?: number;
+  needsReview?: boolean;
+  stability?: TestStability;
+  voiceMetrics?: VoiceTurnMetrics[];
+  factViolations?: FactViolation[];
+  slots?: SlotResult[];
+  actions?: AgentAction[];
+  compliance?: ComplianceReport;
+  turnLatencies?: number[];
+  latency?: LatencyStats;
+}
+
+export interface ComplianceFinding {
+  requirement: string;
+  ruleId: string;
+  severity: 'critical' | 'major' | 'minor';
+  turnIndex?: number;
+  message: string;
+}
+
+export interface ComplianceReport {
+  score: number;
+  requirements: Array<{
+    requirement: string;
+    score: number;
+    rulesChecked: number;
+    findings: ComplianceFinding[];
+  }>;
+}
+
+export interface ComplianceSummary {
+  score: number;
+  requirements: Array<{
+    requirement: string;
+    score: number;
+    violations: number;
+    violatingTestCaseIds: string[];
+  }>;
+}
+
+export interface FactViolation {
+  turnIndex: number;
+  kind: 'price' | 'hours' | 'day' | 'service';
+  claim: string;
+  expected: string;
+  message: string;
+}
+
+export interface AgentAction {
+  turnIndex: number;
+  type: 'book_appointment' | 'transfer_call' | 'send_sms';
+  args: Record<string, unknown>;
+}
+
+export interface SlotResult {
+  slot: string;
+  kind: 'email' | 'phone' | 'name' | 'date' | 'time' | 'service' | 'other';
+  status: 'confirmed' | 'unconfirmed' | 'unanswered' | 'missing';
+  requested: boolean;
+  supplied: boolean;
+  confirmed: boolean;
+  value?: string;
 }
 
 export interface PromptChange {
@@ -38,6 +121,37 @@ export interface PerformanceMetrics {
   completeness: number;
   helpfulness: number;
   overall: number;
+  voice?: VoiceMetricsSummary;
+  latency?: LatencyStats;
+  compliance?: ComplianceSummary;
+}
+
+export interface LatencyStats {
+  samples: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface VoiceTurnMetrics {
+  turnIndex: number;
+  wordCount: number;
+  spokenSeconds: number;
+  maxSentenceWords: number;
+  unreadableNumbers: string[];
+  issues: string[];
+  score: number;
+}
+
+export interface VoiceMetricsSummary {
+  turns: number;
+  averageSpokenSeconds: number;
+  maxSpokenSeconds: number;
+  averageSentenceWords: number;
+  turnsWithFormatting: number;
+  unreadableNumbers: number;
+  score: number;
 }
 
 export interface TestResults {
@@ -45,10 +159,35 @@ export interface TestResults {
   overallScore: number;
   evaluations: Evaluation[];
   metrics?: PerformanceMetrics;
+  cancelled?: boolean;
+}
+
+export interface ScoreInterval {
+  mean: number;
+  low: number;
+  high: number;
+}
+
+export interface SignificanceReport {
+  pairedTests: number;
+  confidenceLevel: number;
+  before: ScoreInterval;
+  after: ScoreInterval;
+  difference: ScoreInterval;
+  mcnemar: {
+    improved: number;
+    regressed: number;
+    pValue: number;
+  };
+  alpha: number;
+  minScoreDelta: number;
+  significant: boolean;
+  summary: string;
 }
 
 export interface OptimizationResult {
   success: boolean;
+  cancelled?: boolean;
   iterations: number;
   initialScore: number;
   finalScore: number;
@@ -56,12 +195,34 @@ export interface OptimizationResult {
   optimizedPrompt: string;
   changes: PromptChange[];
   metrics?: PerformanceMetrics;
+  significance?: SignificanceReport;
   testResults: {
     before: TestResults;
     after: TestResults;
   };
 }
 
+export type JobEvent = { jobId: string; seq: number; timestamp: string } & (
+  | { type: 'progress'; phase: string; percent: number }
+  | { type: 'test-started'; testCaseId: string; testCaseName: string; run: number; runs: number }
+  | { type: 'turn-completed'; testCaseId: string; turnIndex: number; userMessage: string; agentResponse: string; latencyMs: number }
+  | { type: 'evaluation-scored'; testCaseId: string; testCaseName: string; passed: boolean; score: number; flaky?: boolean }
+  | { type: 'prompt-candidate'; iteration: number; prompt: string; changes: PromptChange[] }
+  | { type: 'iteration-finished'; iteration: number; maxIterations: number; score: number; bestScore: number; improved: boolean }
+  | { type: 'job-completed'; result?: unknown }
+  | { type: 'job-failed'; error: string }
+  | { type: 'job-cancelled'; result?: unknown }
+);
+
+export interface JobStatusResponse {
+  id: string;
+  status: string; // BullMQ state, or 'failed' / 'cancelled' once the worker reports it
+  progress: number;
+  phase?: string;
+  result?: unknown;
+  error?: string;
+}
+
 export interface LogEntry {
   timestamp: string;
   message: string;
@@ -76,4 +237,13 @@ export interface TestConversation {
   passed: boolean;
   score: number;
   reasoning: string;
+  turnResults?: TurnResult[];
+  needsReview?: boolean;
+  flaky?: boolean;
+  voiceMetrics?: VoiceTurnMetrics[];
+  factViolations?: FactViolation[];
+  complianceFindings?: ComplianceFinding[];
+  slots?: SlotResult[];
+  actions?: AgentAction[];
+  turnLatencies?: number[];
 }